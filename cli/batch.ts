@@ -0,0 +1,136 @@
+// Batch net sheets from the command line:
+//   npm run batch -- deals.csv --out ./net-sheets
+// Reads one deal per CSV row or JSON object, runs the same engine as the app, writes
+// one seller PDF per valid deal plus summary.csv, and exits 1 if any row was rejected.
+
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { extname, join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { computeNetSheet, round2, toCsv } from "../src/engine";
+import { buildPdf } from "../src/pdf";
+import { DEAL_COLUMNS, describeDealColumn, readDealRows } from "./dealRows";
+import { installFeeScheduleFile } from "./feeScheduleFile";
+
+const USAGE = `Usage: npm run batch -- <deals.csv|deals.json> [--out <dir>] [--format csv|json] [--fees <fee-schedules.json>]
+
+Writes <dir>/NNN_<name>.pdf for each valid deal and <dir>/summary.csv (default dir: ./net-sheets).
+Exits 1 when any row is invalid; valid rows are still written.
+--fees prices with a fee schedule file exported from the app (default: built-in schedules).
+
+Columns (CSV header or JSON keys):
+${Object.entries(DEAL_COLUMNS)
+  .map(([k, col]) => `  ${k.padEnd(22)} ${describeDealColumn(col)}`)
+  .join("\n")}
+`;
+
+function safeFileName(name: string) {
+  return name.replace(/[^A-Za-z0-9._-]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 60) || "deal";
+}
+
+function main(argv: string[]): number {
+  let args;
+  try {
+    args = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        out: { type: "string", short: "o", default: "net-sheets" },
+        format: { type: "string" },
+        fees: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    console.error(`${(err as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = args;
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const file = resolve(positionals[0]);
+  const format = values.format ?? (extname(file).toLowerCase() === ".json" ? "json" : "csv");
+  if (format !== "csv" && format !== "json") {
+    console.error(`--format must be csv or json (got "${format}")`);
+    return 2;
+  }
+
+  if (values.fees) {
+    const feeErrors = installFeeScheduleFile(resolve(values.fees));
+    if (feeErrors.length) {
+      for (const e of feeErrors) console.error(e);
+      return 2;
+    }
+  }
+
+  let text: string;
+  try {
+    text = readFileSync(file, "utf8");
+  } catch (err) {
+    console.error(`Cannot read ${file}: ${(err as Error).message}`);
+    return 2;
+  }
+
+  const parsed = readDealRows(text, format);
+  if (!parsed.ok) {
+    console.error(`${file}: ${parsed.error}`);
+    return 2;
+  }
+  if (parsed.unknownColumns.length) {
+    console.error(`Ignoring unknown column(s): ${parsed.unknownColumns.join(", ")} (see --help)`);
+  }
+
+  const outDir = resolve(values.out!);
+  mkdirSync(outDir, { recursive: true });
+
+  const summary: Array<Array<string | number>> = [
+    ["row", "name", "status", "county", "closing_date", "sale_price", "total_commission", "title_fees", "tax_proration", "estimated_net", "pdf", "warnings", "errors"],
+  ];
+  const width = String(parsed.rows[parsed.rows.length - 1].row).length;
+  let failed = 0;
+
+  for (const row of parsed.rows) {
+    if (!row.ok) {
+      failed++;
+      for (const e of row.errors) console.error(`Row ${row.row} (${row.name}): ${e.message}`);
+      summary.push([row.row, row.name, "error", "", "", "", "", "", "", "", "", "", row.errors.map((e) => e.message).join("; ")]);
+      continue;
+    }
+
+    const sheet = computeNetSheet(row.input);
+    const pdfName = `${String(row.row).padStart(width, "0")}_${safeFileName(row.name)}.pdf`;
+    writeFileSync(join(outDir, pdfName), Buffer.from(buildPdf(sheet).output("arraybuffer")));
+
+    const s = sheet.seller;
+    summary.push([
+      row.row,
+      row.name,
+      "ok",
+      sheet.deal.county,
+      sheet.deal.closingDate,
+      round2(sheet.deal.salePrice).toFixed(2),
+      round2(s.subtotals.commissions).toFixed(2),
+      round2(s.titleFeesTotal).toFixed(2),
+      round2(s.taxDebit).toFixed(2),
+      round2(s.estimatedNet).toFixed(2),
+      pdfName,
+      sheet.warnings.map((w) => w.message).join("; "),
+      "",
+    ]);
+  }
+
+  writeFileSync(join(outDir, "summary.csv"), toCsv(summary));
+  const written = parsed.rows.length - failed;
+  console.log(`Wrote ${written} net sheet${written === 1 ? "" : "s"} and summary.csv to ${outDir}`);
+  if (failed) console.error(`${failed} row${failed === 1 ? "" : "s"} rejected; see errors above or in summary.csv`);
+  return failed ? 1 : 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
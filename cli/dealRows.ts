@@ -0,0 +1,529 @@
+import {
+  BUYER_BROKER_PAID_BY,
+  ENDORSEMENTS,
+  HOA_DUES_PERIODS,
+  IN_COUNTIES,
+  LIEN_KINDS,
+  LOAN_PROGRAMS,
+  RECORDING_DOCUMENTS,
+  TAX_PROPERTY_CLASSES,
+  UTILITY_BILLING_CYCLES,
+  UTILITY_KINDS,
+  isValidYMD,
+  parseCsv,
+  round2,
+  type Commission,
+  type CommissionTier,
+  type EndorsementCode,
+  type Lien,
+  type LienKind,
+  type NetSheetInput,
+  type PctOrFlat,
+  type RecordedDocument,
+  type TaxParcel,
+  type RecordingDocumentType,
+  type UtilityAccount,
+  type UtilityBillingCycle,
+  type UtilityKind,
+} from "../src/engine";
+
+// -----------------------------
+// Batch input: one flat record per deal (a CSV row or a JSON object)
+// -----------------------------
+
+type RawValue = string | number | boolean | null | undefined;
+type RawRecord = Record<string, RawValue>;
+
+export type DealColumnKind = "text" | "money" | "pct" | "pct_or_flat" | "yes_no" | "date" | "year" | "pages" | "choice" | "list";
+export type DealColumn = { kind: DealColumnKind; help: string; required?: boolean; values?: readonly string[] };
+
+// Column name -> spec. Order here is the order `--help` and the OpenAPI schema list them.
+export const DEAL_COLUMNS: Record<string, DealColumn> = {
+  name: { kind: "text", help: "Label for the PDF file name and summary (default: county + closing date)" },
+  sale_price: { kind: "money", required: true, help: "Dollars, e.g. 330000 or $330,000" },
+  county: { kind: "text", required: true, help: "Indiana county name, e.g. Marion or St. Joseph" },
+  closing_date: { kind: "date", required: true, help: "YYYY-MM-DD or M/D/YYYY" },
+  transaction_type: { kind: "choice", values: ["with_loan", "cash"], help: "Default with_loan" },
+  loan_program: { kind: "choice", values: Object.keys(LOAN_PROGRAMS), help: "Sets the cap on seller_concessions for a with_loan sale (default conventional)" },
+  va_allowable_costs: { kind: "money", help: "Dollars, VA only: normal closing costs and discount points the seller pays outside the 4% cap (default 0)" },
+  listing_commission: { kind: "pct_or_flat", help: "3% for a percent, $9,000 for a flat amount or $500 + 2.5% for both (default 3%)" },
+  listing_commission_tiers: {
+    kind: "list",
+    help: "Tiered rate instead of listing_commission, as pct:up_to separated by spaces with the last tier open-ended, e.g. 3%:100000 2.5%",
+  },
+  listing_admin_fee: { kind: "money", help: "Dollars, brokerage transaction / admin fee on the listing side (default 0)" },
+  buyers_commission: { kind: "pct_or_flat", help: "Same format as listing_commission (default 3%)" },
+  buyers_commission_tiers: { kind: "list", help: "Same format as listing_commission_tiers" },
+  buyers_admin_fee: { kind: "money", help: "Dollars, brokerage transaction / admin fee on the buyer’s side (default 0)" },
+  buyer_broker_paid_by: {
+    kind: "choice",
+    values: Object.keys(BUYER_BROKER_PAID_BY),
+    help: "Who pays buyers_commission: the seller, the seller as a concession to the buyer, the buyer, or split (default seller)",
+  },
+  buyer_broker_seller_share: { kind: "pct", help: "Seller’s share of buyers_commission when buyer_broker_paid_by is split, e.g. 50% (default 50%)" },
+  dual_agency: { kind: "yes_no", help: "Listing agent represents both sides: listing_commission is the combined rate and no buyer’s agent commission is paid (default no)" },
+  mortgage_payoff: { kind: "money", help: "Dollars, any payoff not itemized in liens (default 0)" },
+  liens: {
+    kind: "list",
+    values: Object.keys(LIEN_KINDS),
+    help: "Liens paid off at closing separated by spaces: kind:payoff:good_through:per_diem:release_fee:prepayment_fee from a payoff statement, or kind:amortized:original:rate:term_months:first_payment:release_fee:prepayment_fee to estimate (trailing fields optional), e.g. first_mortgage:182400:2026-03-01:21.50 heloc:amortized:50000:6.5%:120:2021-05-01:75:500",
+  },
+  seller_concessions: { kind: "money", help: "Dollars, or a percent of sale_price like 3% (default 0)" },
+  home_warranty: { kind: "money", help: "Dollars (default 0)" },
+  other_costs: { kind: "money", help: "Dollars, any other seller-paid costs combined (default 0)" },
+  prior_year_tax: { kind: "money", help: "Dollars, annual tax bill for tax_year (default 0)" },
+  parcel_number: { kind: "text", help: "Parcel number of the main tax bill (optional)" },
+  other_parcels: {
+    kind: "list",
+    help: "More parcels as number:annual_tax or number:annual_tax:paid (paid = spring, fall or both) separated by spaces, e.g. 49-01-23-456-789.000-101:1200:spring",
+  },
+  tax_basis: { kind: "choice", values: ["bill", "assessment"], help: "bill = prior_year_tax; assessment = estimate from the columns below (default bill)" },
+  assessed_value: { kind: "money", help: "Dollars, gross assessed value (tax_basis assessment)" },
+  district_tax_rate: { kind: "money", help: "Dollars per $100 of net assessed value, e.g. 2.4513 (tax_basis assessment)" },
+  property_class: { kind: "choice", values: Object.keys(TAX_PROPERTY_CLASSES), help: "Circuit-breaker cap: 1%, 2% or 3% of gross assessed value (default homestead)" },
+  homestead_deduction: { kind: "yes_no", help: "Standard + supplemental homestead deductions, homestead class only (default yes)" },
+  mortgage_deduction: { kind: "yes_no", help: "Default no" },
+  tax_year: { kind: "year", help: "Tax (assessment) year of prior_year_tax, payable the next year; blank = the year before closing" },
+  spring_paid: { kind: "yes_no", help: "Default no" },
+  spring_paid_amount: { kind: "money", help: "Dollars; blank = half of prior_year_tax" },
+  fall_paid: { kind: "yes_no", help: "Default no" },
+  fall_paid_amount: { kind: "money", help: "Dollars; blank = half of prior_year_tax" },
+  prorate_through: { kind: "choice", values: ["day_before", "closing_date"], help: "Default day_before" },
+  force_365: { kind: "yes_no", help: "Use 365 days in leap years (default no)" },
+  hoa_dues: { kind: "money", help: "Dollars per hoa_dues_period (default 0 = no HOA dues)" },
+  hoa_dues_period: { kind: "choice", values: Object.keys(HOA_DUES_PERIODS), help: "Default monthly" },
+  hoa_paid_through: { kind: "date", help: "Last day the paid dues cover; dues are prorated to prorate_through from here" },
+  hoa_transfer_fee: { kind: "money", help: "Dollars (default 0)" },
+  hoa_resale_fee: { kind: "money", help: "Dollars, resale certificate / disclosure fee (default 0)" },
+  hoa_capital_contribution: { kind: "money", help: "Dollars (default 0)" },
+  hoa_capital_paid_by: { kind: "choice", values: ["buyer", "seller"], help: "Default buyer" },
+  hoa_special_assessments: { kind: "money", help: "Dollars, outstanding special assessments combined (default 0)" },
+  utilities: {
+    kind: "list",
+    values: Object.keys(UTILITY_KINDS),
+    help: `Utilities billed in arrears as kind:cycle:last_bill:paid_through or kind:cycle:last_bill:paid_through:holdback separated by spaces (cycle = ${Object.keys(UTILITY_BILLING_CYCLES).join(", ")}), e.g. sewer:monthly:84.50:2026-02-28:150`,
+  },
+  owner_policy_premium: { kind: "money", help: "Blank = owner’s chart rate; a dollar amount overrides it (0 = none)" },
+  owner_policy_choice: { kind: "choice", values: ["low", "mid", "high"], help: "Point of the chart range (default mid)" },
+  prior_policy_amount: { kind: "money", help: "Dollars; with prior_policy_date, applies the reissue rate when eligible" },
+  prior_policy_date: { kind: "date", help: "YYYY-MM-DD or M/D/YYYY" },
+  settlement_fee: { kind: "yes_no", help: "Default yes" },
+  document_prep: { kind: "yes_no", help: "Default yes" },
+  cpl: { kind: "yes_no", help: "Default yes" },
+  tieff: { kind: "yes_no", help: "Default yes" },
+  recorded_documents: {
+    kind: "list",
+    values: Object.keys(RECORDING_DOCUMENTS),
+    help: "Documents the seller records, as type or type:pages separated by spaces, e.g. deed mortgage_release:2 (default none)",
+  },
+  transfer_fee_sdf: { kind: "yes_no", help: "Default no" },
+  simplifile: { kind: "yes_no", help: "Default yes" },
+  lenders_policy_paid_by: { kind: "choice", values: ["buyer", "seller"], help: "Default buyer" },
+  endorsements: {
+    kind: "list",
+    values: [...Object.keys(ENDORSEMENTS), "none"],
+    help: "Lender’s policy endorsements separated by spaces (default alta_8_1 alta_9)",
+  },
+  down_payment: { kind: "pct_or_flat", help: "Buyer down payment, 20% or $60,000 (default 20%); sets the loan amount" },
+  mortgage_pages: { kind: "pages", help: "Pages in the buyer’s recorded mortgage, for counties that charge per page (default 1)" },
+};
+
+// One-line description for `--help` and the OpenAPI schema
+export function describeDealColumn(col: DealColumn) {
+  const values = col.values ? `${col.values.join(" | ")}. ` : col.kind === "yes_no" ? "yes | no. " : "";
+  return `${col.required ? "Required. " : ""}${values}${col.help}`;
+}
+
+export type DealFieldError = { field: string; message: string };
+
+export type DealRowResult =
+  | { ok: true; row: number; name: string; input: NetSheetInput }
+  | { ok: false; row: number; name: string; errors: DealFieldError[] };
+
+export type DealRowsFile = { ok: true; rows: DealRowResult[]; unknownColumns: string[] } | { ok: false; error: string };
+
+const COUNTY_BY_KEY = new Map(IN_COUNTIES.map((c) => [c.toLowerCase(), c]));
+
+function isBlank(v: RawValue) {
+  return v === null || v === undefined || (typeof v === "string" && v.trim() === "");
+}
+
+// Field readers push a message and return the fallback when a value is unusable,
+// so one pass reports every problem in the row.
+function rowReader(rec: RawRecord, errors: DealFieldError[]) {
+  const fail = (field: string, message: string) => errors.push({ field, message });
+  const text = (key: string) => (isBlank(rec[key]) ? "" : String(rec[key]).trim());
+
+  function money(key: string, fallback: number | null): number {
+    const raw = rec[key];
+    if (isBlank(raw)) {
+      if (fallback === null) fail(key, `${key} is required`);
+      return fallback ?? 0;
+    }
+    const n = typeof raw === "number" ? raw : Number(String(raw).replace(/[$,\s]/g, ""));
+    if (!Number.isFinite(n) || n < 0) {
+      fail(key, `${key} must be a non-negative dollar amount (got "${raw}")`);
+      return 0;
+    }
+    return n;
+  }
+
+  function percent(key: string, fallback: number): number {
+    const raw = text(key);
+    if (!raw) return fallback;
+    const n = Number(raw.replace(/%$/, ""));
+    if (!Number.isFinite(n) || n < 0 || n > 100) {
+      fail(key, `${key} must be a percent from 0% to 100% (got "${raw}")`);
+      return fallback;
+    }
+    return n;
+  }
+
+  function pctOrFlat(key: string, fallback: PctOrFlat): PctOrFlat {
+    const raw = text(key);
+    if (!raw) return fallback;
+    const pct = raw.match(/^([\d.]+)\s*%$/);
+    if (pct && Number.isFinite(Number(pct[1]))) return { type: "pct", pct: Number(pct[1]), flat: 0 };
+    const flat = Number(raw.replace(/[$,\s]/g, ""));
+    if (!Number.isFinite(flat) || flat < 0) {
+      fail(key, `${key} must look like 3% or $9,000 (got "${raw}")`);
+      return fallback;
+    }
+    // "3" could mean 3% or $3; make the author say which
+    if (!raw.startsWith("$") && flat > 0 && flat <= 100) {
+      fail(key, `${key} "${raw}" is ambiguous; write ${raw}% for a percent or $${raw} for a flat amount`);
+      return fallback;
+    }
+    return { type: "flat", pct: 0, flat };
+  }
+
+  function bool(key: string, fallback: boolean): boolean {
+    const raw = rec[key];
+    if (isBlank(raw)) return fallback;
+    if (typeof raw === "boolean") return raw;
+    const v = String(raw).trim().toLowerCase();
+    if (["yes", "y", "true", "1", "x"].includes(v)) return true;
+    if (["no", "n", "false", "0"].includes(v)) return false;
+    fail(key, `${key} must be yes or no (got "${raw}")`);
+    return fallback;
+  }
+
+  function oneOf<T extends string>(key: string, fallback: T): T {
+    const allowed = DEAL_COLUMNS[key].values ?? [];
+    const raw = text(key).toLowerCase();
+    if (!raw) return fallback;
+    if (allowed.includes(raw)) return raw as T;
+    fail(key, `${key} must be one of ${allowed.join(", ")} (got "${text(key)}")`);
+    return fallback;
+  }
+
+  function date(key: string, required: boolean): string {
+    const raw = text(key);
+    if (!raw) {
+      if (required) fail(key, `${key} is required`);
+      return "";
+    }
+    const us = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    const iso = us ? `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}` : raw;
+    if (!isValidYMD(iso)) {
+      fail(key, `${key} must be a valid date as YYYY-MM-DD or M/D/YYYY (got "${raw}")`);
+      return "";
+    }
+    return iso;
+  }
+
+  function year(key: string): number {
+    const raw = text(key);
+    if (!raw) return 0;
+    if (!/^\d{4}$/.test(raw)) {
+      fail(key, `${key} must be a four-digit year (got "${raw}")`);
+      return 0;
+    }
+    return Number(raw);
+  }
+
+  function pages(key: string, fallback: number): number {
+    const raw = text(key);
+    if (!raw) return fallback;
+    if (!/^\d+$/.test(raw) || Number(raw) < 1) {
+      fail(key, `${key} must be a whole page count of 1 or more (got "${raw}")`);
+      return fallback;
+    }
+    return Number(raw);
+  }
+
+  return { text, fail, money, percent, pctOrFlat, bool, oneOf, date, year, pages };
+}
+
+export function parseDealRecord(rec: RawRecord, row: number): DealRowResult {
+  const errors: DealFieldError[] = [];
+  const r = rowReader(rec, errors);
+
+  for (const [key, value] of Object.entries(rec)) {
+    if (value !== null && typeof value === "object") r.fail(key, `${key} must be a string, number or boolean`);
+  }
+
+  const countyText = r.text("county");
+  const county = COUNTY_BY_KEY.get(countyText.toLowerCase().replace(/\s+county$/, "")) ?? "";
+  if (!countyText) r.fail("county", "county is required");
+  else if (!county) r.fail("county", `county "${countyText}" is not an Indiana county`);
+
+  const closingDate = r.date("closing_date", true);
+  const salePrice = r.money("sale_price", null);
+  const ownerPremiumText = r.text("owner_policy_premium");
+  const priorPolicyDate = r.date("prior_policy_date", false);
+  const priorPolicyAmount = r.money("prior_policy_amount", 0);
+
+  const homesteadDeduction = r.bool("homestead_deduction", true);
+
+  const endorsementsText = r.text("endorsements").toLowerCase();
+  const endorsements: EndorsementCode[] = [];
+  if (!endorsementsText) {
+    endorsements.push("alta_8_1", "alta_9");
+  } else if (endorsementsText !== "none") {
+    for (const code of endorsementsText.split(/[\s;,]+/).filter(Boolean)) {
+      if (code in ENDORSEMENTS) endorsements.push(code as EndorsementCode);
+      else r.fail("endorsements", `endorsements: unknown code "${code}" (use ${DEAL_COLUMNS.endorsements.values!.join(", ")})`);
+    }
+  }
+
+  const recordedDocuments: RecordedDocument[] = [];
+  for (const entry of r.text("recorded_documents").toLowerCase().split(/[\s;,]+/).filter(Boolean)) {
+    const [type, pagesText = "1"] = entry.split(":");
+    const pages = Number(pagesText);
+    if (!(type in RECORDING_DOCUMENTS)) {
+      r.fail("recorded_documents", `recorded_documents: unknown type "${type}" (use ${DEAL_COLUMNS.recorded_documents.values!.join(", ")})`);
+    } else if (!Number.isInteger(pages) || pages < 1) {
+      r.fail("recorded_documents", `recorded_documents: ${type} needs a whole page count of 1 or more (got "${pagesText}")`);
+    } else {
+      recordedDocuments.push({ type: type as RecordingDocumentType, pages });
+    }
+  }
+
+  const taxParcels: TaxParcel[] = [];
+  for (const entry of r.text("other_parcels").split(/[\s;]+/).filter(Boolean)) {
+    const [parcelNumber, amountText = "", paidText = "none"] = entry.split(":");
+    const amount = Number(amountText.replace(/[$,]/g, ""));
+    const paid = paidText.toLowerCase();
+    if (!parcelNumber || !amountText || !Number.isFinite(amount) || amount < 0) {
+      r.fail("other_parcels", `other_parcels: "${entry}" needs a parcel number and a non-negative annual tax, e.g. 49-01-23-456-789.000-101:1200`);
+    } else if (!["none", "spring", "fall", "both"].includes(paid)) {
+      r.fail("other_parcels", `other_parcels: paid must be spring, fall or both (got "${paidText}")`);
+    } else {
+      const springPaid = paid === "spring" || paid === "both";
+      const fallPaid = paid === "fall" || paid === "both";
+      taxParcels.push({ parcelNumber, priorYearTax: amount, springPaid, springPaidAmount: 0, fallPaid, fallPaidAmount: 0 });
+    }
+  }
+
+  // "$500 + 2.5%" or tiers like "3%:100000 2.5%"; anything else is read as a plain percent or flat amount
+  function commission(key: string, tiersKey: string, adminKey: string): Commission {
+    const base: Commission = { type: "pct", pct: 3, flat: 0, tiers: [], adminFee: r.money(adminKey, 0), referralPct: 0 };
+    const raw = r.text(key);
+    const tiersText = r.text(tiersKey);
+    if (raw && tiersText) {
+      r.fail(tiersKey, `${tiersKey}: leave ${key} blank when the rate is tiered`);
+      return base;
+    }
+    if (tiersText) {
+      const tiers: CommissionTier[] = [];
+      const entries = tiersText.split(/[\s;]+/).filter(Boolean);
+      entries.forEach((entry, i) => {
+        const [pctText, upToText = ""] = entry.split(":");
+        const pct = Number(pctText.replace(/%$/, ""));
+        const upTo = Number(upToText.replace(/[$,]/g, ""));
+        const last = i === entries.length - 1;
+        if (!pctText || !Number.isFinite(pct) || pct < 0 || (!last && (!upToText || !Number.isFinite(upTo) || upTo <= (tiers[i - 1]?.upTo ?? 0)))) {
+          r.fail(tiersKey, `${tiersKey}: "${entry}" needs a percent and a rising price cap (the last tier has none), e.g. 3%:100000 2.5%`);
+        } else {
+          tiers.push({ pct, upTo: last && !upToText ? 0 : upTo });
+        }
+      });
+      return { ...base, type: "tiered", tiers };
+    }
+    const both = raw.match(/^\$?\s*([\d,.]+)\s*\+\s*([\d.]+)\s*%$/);
+    if (both) {
+      const flat = Number(both[1].replace(/,/g, ""));
+      const pct = Number(both[2]);
+      if (Number.isFinite(flat) && Number.isFinite(pct)) return { ...base, type: "flat_plus_pct", pct, flat };
+    }
+    return { ...base, ...r.pctOrFlat(key, { type: "pct", pct: 3, flat: 0 }) };
+  }
+
+  const utilities: UtilityAccount[] = [];
+  for (const entry of r.text("utilities").toLowerCase().split(/[\s;]+/).filter(Boolean)) {
+    const [kind, cycle = "", billText = "", paidThrough = "", holdbackText = "0"] = entry.split(":");
+    const lastBill = Number(billText.replace(/[$,]/g, ""));
+    const holdback = Number(holdbackText.replace(/[$,]/g, ""));
+    if (!(kind in UTILITY_KINDS)) {
+      r.fail("utilities", `utilities: unknown kind "${kind}" (use ${DEAL_COLUMNS.utilities.values!.join(", ")})`);
+    } else if (!(cycle in UTILITY_BILLING_CYCLES)) {
+      r.fail("utilities", `utilities: ${kind} needs a billing cycle of ${Object.keys(UTILITY_BILLING_CYCLES).join(", ")} (got "${cycle}")`);
+    } else if (!billText || !Number.isFinite(lastBill) || lastBill < 0 || !Number.isFinite(holdback) || holdback < 0) {
+      r.fail("utilities", `utilities: "${entry}" needs non-negative dollar amounts, e.g. sewer:monthly:84.50:2026-02-28:150`);
+    } else if (paidThrough && !isValidYMD(paidThrough)) {
+      r.fail("utilities", `utilities: ${kind} paid-through date must be YYYY-MM-DD (got "${paidThrough}")`);
+    } else {
+      utilities.push({ kind: kind as UtilityKind, provider: "", billingCycle: cycle as UtilityBillingCycle, lastBillAmount: lastBill, paidThroughDate: paidThrough, holdback });
+    }
+  }
+
+  const liens: Lien[] = [];
+  for (const entry of r.text("liens").toLowerCase().split(/[\s;]+/).filter(Boolean)) {
+    const [kind, ...fields] = entry.split(":");
+    const amount = (t: string) => (t ? Number(t.replace(/[$,%]/g, "")) : NaN);
+    const lien: Lien = {
+      kind: kind as LienKind,
+      holder: "",
+      method: fields[0] === "amortized" ? "amortized" : "statement",
+      statementAmount: 0,
+      goodThroughDate: "",
+      perDiem: 0,
+      originalAmount: 0,
+      ratePct: 0,
+      termMonths: 0,
+      firstPaymentDate: "",
+      releaseFee: 0,
+      prepaymentFee: 0,
+    };
+    if (!(kind in LIEN_KINDS)) {
+      r.fail("liens", `liens: unknown kind "${kind}" (use ${DEAL_COLUMNS.liens.values!.join(", ")})`);
+    } else if (lien.method === "amortized") {
+      const [, originalText = "", rateText = "", termText = "", firstPayment = "", releaseText = "0", prepaymentText = "0"] = fields;
+      const [original, rate, release, prepayment, term] = [amount(originalText), amount(rateText), amount(releaseText), amount(prepaymentText), Number(termText)];
+      if (![original, rate, release, prepayment].every((n) => Number.isFinite(n) && n >= 0) || !Number.isInteger(term) || term < 1) {
+        r.fail("liens", `liens: "${entry}" needs an original amount, a rate and a whole term in months, e.g. first_mortgage:amortized:240000:6.5%:360:2021-05-01`);
+      } else if (firstPayment && !isValidYMD(firstPayment)) {
+        r.fail("liens", `liens: ${kind} first payment date must be YYYY-MM-DD (got "${firstPayment}")`);
+      } else {
+        liens.push({ ...lien, originalAmount: original, ratePct: rate, termMonths: term, firstPaymentDate: firstPayment, releaseFee: release, prepaymentFee: prepayment });
+      }
+    } else {
+      const [payoffText = "", goodThrough = "", perDiemText = "0", releaseText = "0", prepaymentText = "0"] = fields;
+      const [payoff, perDiem, release, prepayment] = [amount(payoffText), amount(perDiemText), amount(releaseText), amount(prepaymentText)];
+      if (![payoff, perDiem, release, prepayment].every((n) => Number.isFinite(n) && n >= 0)) {
+        r.fail("liens", `liens: "${entry}" needs non-negative dollar amounts, e.g. first_mortgage:182400:2026-03-01:21.50`);
+      } else if (goodThrough && !isValidYMD(goodThrough)) {
+        r.fail("liens", `liens: ${kind} good-through date must be YYYY-MM-DD (got "${goodThrough}")`);
+      } else {
+        liens.push({ ...lien, statementAmount: payoff, goodThroughDate: goodThrough, perDiem, releaseFee: release, prepaymentFee: prepayment });
+      }
+    }
+  }
+
+  const input: NetSheetInput = {
+    salePrice,
+    closingDate,
+    county,
+    transactionType: r.oneOf<NetSheetInput["transactionType"]>("transaction_type", "with_loan"),
+    loan: { program: r.oneOf<NetSheetInput["loan"]["program"]>("loan_program", "conventional"), allowableCosts: r.money("va_allowable_costs", 0) },
+    listingCommission: commission("listing_commission", "listing_commission_tiers", "listing_admin_fee"),
+    buyersCommission: commission("buyers_commission", "buyers_commission_tiers", "buyers_admin_fee"),
+    dualAgency: r.bool("dual_agency", false),
+    buyerBroker: {
+      paidBy: r.oneOf<NetSheetInput["buyerBroker"]["paidBy"]>("buyer_broker_paid_by", "seller"),
+      sellerSharePct: r.percent("buyer_broker_seller_share", 50),
+    },
+    mortgagePayoff: r.money("mortgage_payoff", 0),
+    liens,
+    sellerConcessions: /%$/.test(r.text("seller_concessions")) ? round2(salePrice * (r.percent("seller_concessions", 0) / 100)) : r.money("seller_concessions", 0),
+    otherCosts: [
+      { label: "Home warranty", amount: r.money("home_warranty", 0) },
+      { label: "Other seller-paid costs", amount: r.money("other_costs", 0) },
+    ].filter((c) => c.amount > 0),
+    title: {
+      useSimplifile: r.bool("simplifile", true),
+      autoOwnerPolicy: !ownerPremiumText,
+      ownerPolicyChoice: r.oneOf<NetSheetInput["title"]["ownerPolicyChoice"]>("owner_policy_choice", "mid"),
+      ownerPolicyPremium: r.money("owner_policy_premium", 0),
+      applyReissue: priorPolicyAmount > 0 && !!priorPolicyDate,
+      priorPolicyAmount,
+      priorPolicyDate,
+      includeSettlementFee: r.bool("settlement_fee", true),
+      includeDocumentPrep: r.bool("document_prep", true),
+      includeCPL: r.bool("cpl", true),
+      includeTIEFF: r.bool("tieff", true),
+      recordedDocuments,
+      includeTransferFeeSDF: r.bool("transfer_fee_sdf", false),
+      lendersPolicyPaidBy: r.oneOf<NetSheetInput["title"]["lendersPolicyPaidBy"]>("lenders_policy_paid_by", "buyer"),
+      endorsements,
+    },
+    tax: {
+      basis: r.oneOf<NetSheetInput["tax"]["basis"]>("tax_basis", "bill"),
+      parcelNumber: r.text("parcel_number"),
+      priorYearTax: r.money("prior_year_tax", 0),
+      assessment: {
+        grossAssessedValue: r.money("assessed_value", 0),
+        propertyClass: r.oneOf<NetSheetInput["tax"]["assessment"]["propertyClass"]>("property_class", "homestead"),
+        standardDeduction: homesteadDeduction,
+        supplementalDeduction: homesteadDeduction,
+        mortgageDeduction: r.bool("mortgage_deduction", false),
+        districtRatePer100: r.money("district_tax_rate", 0),
+      },
+      taxYear: r.year("tax_year"),
+      springPaid: r.bool("spring_paid", false),
+      springPaidAmount: r.money("spring_paid_amount", 0),
+      fallPaid: r.bool("fall_paid", false),
+      fallPaidAmount: r.money("fall_paid_amount", 0),
+      otherYears: [],
+      prorateThrough: r.oneOf<NetSheetInput["tax"]["prorateThrough"]>("prorate_through", "day_before"),
+      force365: r.bool("force_365", false),
+    },
+    taxParcels,
+    hoa: {
+      duesAmount: r.money("hoa_dues", 0),
+      duesPeriod: r.oneOf<NetSheetInput["hoa"]["duesPeriod"]>("hoa_dues_period", "monthly"),
+      paidThroughDate: r.date("hoa_paid_through", false),
+      transferFee: r.money("hoa_transfer_fee", 0),
+      resaleCertificateFee: r.money("hoa_resale_fee", 0),
+      capitalContribution: r.money("hoa_capital_contribution", 0),
+      capitalContributionPaidBy: r.oneOf<NetSheetInput["hoa"]["capitalContributionPaidBy"]>("hoa_capital_paid_by", "buyer"),
+      specialAssessments: [{ label: "", amount: r.money("hoa_special_assessments", 0) }].filter((a) => a.amount > 0),
+    },
+    utilities,
+    buyer: {
+      downPayment: r.pctOrFlat("down_payment", { type: "pct", pct: 20, flat: 0 }),
+      lenderItems: [],
+      includeSettlementFee: true,
+      includeCPL: true,
+      includeTIEFF: true,
+      includeMortgageRecording: true,
+      mortgagePages: r.pages("mortgage_pages", 1),
+    },
+  };
+
+  const name = r.text("name") || (county && closingDate ? `${county} County ${closingDate}` : `Row ${row}`);
+  return errors.length ? { ok: false, row, name, errors } : { ok: true, row, name, input };
+}
+
+// Rows are numbered as a spreadsheet shows them (header = row 1) for CSV, and from 1 for JSON arrays.
+export function readDealRows(text: string, format: "csv" | "json"): DealRowsFile {
+  let records: RawRecord[];
+  let firstRow: number;
+
+  if (format === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return { ok: false, error: "File is not valid JSON." };
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as { deals?: unknown })?.deals;
+    if (!Array.isArray(list)) return { ok: false, error: 'JSON must be an array of deals (or { "deals": [...] }).' };
+    if (list.some((x) => !x || typeof x !== "object" || Array.isArray(x))) return { ok: false, error: "Every JSON deal must be an object." };
+    records = list as RawRecord[];
+    firstRow = 1;
+  } else {
+    const table = parseCsv(text);
+    if (table.length === 0) return { ok: false, error: "CSV file is empty." };
+    const header = table[0].map((h) => h.trim().toLowerCase());
+    records = table.slice(1).map((cells) => Object.fromEntries(header.map((h, i) => [h, cells[i] ?? ""])));
+    firstRow = 2;
+  }
+
+  if (records.length === 0) return { ok: false, error: "No deals found in the file." };
+
+  const seen = new Set(records.flatMap((rec) => Object.keys(rec)));
+  const unknownColumns = [...seen].filter((k) => !(k in DEAL_COLUMNS));
+  return { ok: true, rows: records.map((rec, i) => parseDealRecord(rec, firstRow + i)), unknownColumns };
+}
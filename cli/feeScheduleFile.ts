@@ -0,0 +1,17 @@
+import { readFileSync } from "node:fs";
+import { parseFeeScheduleConfig, setFeeScheduleConfig } from "../src/engine";
+
+// Loads a fee schedule file exported from the app’s admin screen and makes the engine
+// price with it. Returns the reasons it was rejected, or [] once installed.
+export function installFeeScheduleFile(path: string): string[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    return [err instanceof SyntaxError ? `${path} is not valid JSON.` : `Cannot read ${path}: ${(err as Error).message}`];
+  }
+  const parsed = parseFeeScheduleConfig(raw);
+  if (!parsed.ok) return parsed.errors.map((e) => `${path}: ${e}`);
+  setFeeScheduleConfig(parsed.config);
+  return [];
+}
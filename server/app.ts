@@ -0,0 +1,121 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { computeNetSheet } from "../src/engine";
+import { buildPdf } from "../src/pdf";
+import { DEAL_COLUMNS, parseDealRecord, type DealFieldError } from "../cli/dealRows";
+import { OPENAPI_DOCUMENT } from "./openapi";
+
+// -----------------------------
+// HTTP API over the headless engine (see OPENAPI_DOCUMENT for the contract)
+// -----------------------------
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+type ApiError = { status: number; code: string; message: string; details?: DealFieldError[] };
+type BodyResult = { ok: true; value: unknown } | ({ ok: false } & ApiError);
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, e: ApiError, headers: Record<string, string> = {}) {
+  const { status, ...error } = e;
+  sendJson(res, status, { error }, headers);
+}
+
+function readJsonBody(req: IncomingMessage): Promise<BodyResult> {
+  return new Promise((resolve) => {
+    if (!/^application\/json\b/i.test(req.headers["content-type"] ?? "")) {
+      req.resume();
+      resolve({ ok: false, status: 415, code: "unsupported_media_type", message: "Send the deal as Content-Type: application/json." });
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) tooLarge = true;
+      else chunks.push(chunk);
+    });
+    req.on("end", () => {
+      if (tooLarge) {
+        resolve({ ok: false, status: 413, code: "payload_too_large", message: `Request body exceeds ${MAX_BODY_BYTES} bytes.` });
+        return;
+      }
+      try {
+        resolve({ ok: true, value: JSON.parse(Buffer.concat(chunks).toString("utf8")) });
+      } catch {
+        resolve({ ok: false, status: 400, code: "invalid_json", message: "Request body is not valid JSON." });
+      }
+    });
+    req.on("error", () => resolve({ ok: false, status: 400, code: "invalid_request", message: "Request body could not be read." }));
+  });
+}
+
+// Stricter than the CLI: an integration that misspells a field should hear about it
+// instead of silently getting the default.
+function validateDeal(body: unknown) {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false as const, error: { status: 400, code: "invalid_request", message: "Request body must be a JSON object describing one deal." } };
+  }
+  const record = body as Record<string, string | number | boolean | null>;
+  const unknown: DealFieldError[] = Object.keys(record)
+    .filter((k) => !(k in DEAL_COLUMNS))
+    .map((field) => ({ field, message: `unknown field "${field}"` }));
+  const parsed = parseDealRecord(record, 1);
+  const details = [...unknown, ...(parsed.ok ? [] : parsed.errors)];
+  if (!parsed.ok || details.length) {
+    const n = details.length;
+    return { ok: false as const, error: { status: 400, code: "invalid_request", message: `${n} invalid field${n === 1 ? "" : "s"}.`, details } };
+  }
+  return { ok: true as const, input: parsed.input };
+}
+
+const ROUTES: Record<string, string> = {
+  "/net-sheet": "POST",
+  "/net-sheet.pdf": "POST",
+  "/openapi.json": "GET",
+  "/health": "GET",
+};
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const path = new URL(req.url ?? "/", "http://localhost").pathname;
+  const method = ROUTES[path];
+  if (!method) {
+    req.resume();
+    sendError(res, { status: 404, code: "not_found", message: `No route for ${path}.` });
+    return;
+  }
+  if (req.method !== method) {
+    req.resume();
+    sendError(res, { status: 405, code: "method_not_allowed", message: `Use ${method} ${path}.` }, { Allow: method });
+    return;
+  }
+
+  if (path === "/health") return sendJson(res, 200, { status: "ok" });
+  if (path === "/openapi.json") return sendJson(res, 200, OPENAPI_DOCUMENT);
+
+  const body = await readJsonBody(req);
+  if (!body.ok) return sendError(res, body);
+  const deal = validateDeal(body.value);
+  if (!deal.ok) return sendError(res, deal.error);
+
+  const sheet = computeNetSheet(deal.input);
+  if (path === "/net-sheet") return sendJson(res, 200, sheet);
+
+  const pdf = Buffer.from(buildPdf(sheet).output("arraybuffer"));
+  res.writeHead(200, { "Content-Type": "application/pdf", "Content-Length": pdf.length, "Content-Disposition": 'inline; filename="net-sheet.pdf"' });
+  res.end(pdf);
+}
+
+export function createNetSheetServer() {
+  return createServer((req, res) => {
+    handle(req, res).catch((err) => {
+      console.error(err);
+      if (!res.headersSent) sendError(res, { status: 500, code: "internal_error", message: "Net sheet could not be computed." });
+      else res.end();
+    });
+  });
+}
@@ -0,0 +1,51 @@
+// Local net sheet API:
+//   npm run serve -- --port 8787 --host 127.0.0.1 [--fees fee-schedules.json]
+// POST a deal (same fields as the batch CLI) to /net-sheet or /net-sheet.pdf;
+// GET /openapi.json describes the contract. No outside services are used.
+
+import { parseArgs } from "node:util";
+import { installFeeScheduleFile } from "../cli/feeScheduleFile";
+import { createNetSheetServer } from "./app";
+
+const USAGE = "Usage: npm run serve -- [--port 8787] [--host 127.0.0.1] [--fees <fee-schedules.json>]";
+
+let args;
+try {
+  args = parseArgs({
+    options: {
+      port: { type: "string", short: "p", default: "8787" },
+      host: { type: "string", default: "127.0.0.1" },
+      fees: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+} catch (err) {
+  console.error(`${(err as Error).message}\n${USAGE}`);
+  process.exit(2);
+}
+
+if (args.values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const port = Number(args.values.port);
+if (!Number.isInteger(port) || port < 0 || port > 65535) {
+  console.error(`--port must be 0-65535 (got "${args.values.port}")`);
+  process.exit(2);
+}
+
+if (args.values.fees) {
+  const feeErrors = installFeeScheduleFile(args.values.fees);
+  if (feeErrors.length) {
+    for (const e of feeErrors) console.error(e);
+    process.exit(2);
+  }
+}
+
+const server = createNetSheetServer();
+server.listen(port, args.values.host, () => {
+  const addr = server.address();
+  const where = addr && typeof addr === "object" ? `http://${args.values.host}:${addr.port}` : String(addr);
+  console.log(`Net sheet API listening on ${where} (spec at ${where}/openapi.json)`);
+});
@@ -0,0 +1,290 @@
+import { DEAL_COLUMNS, describeDealColumn, type DealColumn } from "../cli/dealRows";
+
+// OpenAPI 3.1 description served at GET /openapi.json. The request schema is generated
+// from DEAL_COLUMNS so it stays in step with the validator the CLI and the API share.
+
+function columnSchema(col: DealColumn) {
+  const description = describeDealColumn(col);
+  switch (col.kind) {
+    case "money":
+      return { type: ["number", "string"], description, examples: [330000, "$330,000"] };
+    case "pct":
+      return { type: ["number", "string"], description, examples: ["50%", 50] };
+    case "pct_or_flat":
+      return { type: ["string", "number"], description, examples: ["3%", "$9,000"] };
+    case "yes_no":
+      return { type: ["boolean", "string"], description };
+    case "choice":
+      return { type: "string", enum: col.values, description };
+    case "date":
+      return { type: "string", description, examples: ["2026-03-15"] };
+    case "year":
+      return { type: ["integer", "string"], description, examples: [2025] };
+    case "pages":
+      return { type: ["integer", "string"], description, examples: [12] };
+    default:
+      return { type: "string", description };
+  }
+}
+
+const money = { type: "number" };
+const line = {
+  type: "object",
+  required: ["key", "label", "amount"],
+  properties: { key: { type: "string" }, label: { type: "string" }, amount: { ...money, description: "Signed: credits positive, debits negative" } },
+};
+const item = { type: "object", required: ["label", "amount"], properties: { label: { type: "string" }, amount: money } };
+const commission = {
+  type: "object",
+  properties: { items: { type: "array", items: item }, total: money, referralFee: { ...money, description: "Paid by the brokerage out of the commission; not deducted" } },
+};
+
+export const OPENAPI_DOCUMENT = {
+  openapi: "3.1.0",
+  info: {
+    title: "IHT Seller Net Sheet API",
+    version: "1.0.0",
+    description: "Indiana seller net sheet estimates, computed by the same engine as the web app. Estimates only; final figures come from the settlement statement.",
+  },
+  paths: {
+    "/net-sheet": {
+      post: {
+        summary: "Compute a net sheet",
+        requestBody: { required: true, content: { "application/json": { schema: { $ref: "#/components/schemas/Deal" } } } },
+        responses: {
+          "200": { description: "Net sheet line items, tax proration and estimated net", content: { "application/json": { schema: { $ref: "#/components/schemas/NetSheetResult" } } } },
+          "400": { $ref: "#/components/responses/BadRequest" },
+          "413": { $ref: "#/components/responses/Error" },
+          "415": { $ref: "#/components/responses/Error" },
+        },
+      },
+    },
+    "/net-sheet.pdf": {
+      post: {
+        summary: "Render the seller net sheet PDF",
+        requestBody: { required: true, content: { "application/json": { schema: { $ref: "#/components/schemas/Deal" } } } },
+        responses: {
+          "200": { description: "One-page seller net sheet", content: { "application/pdf": { schema: { type: "string", format: "binary" } } } },
+          "400": { $ref: "#/components/responses/BadRequest" },
+          "413": { $ref: "#/components/responses/Error" },
+          "415": { $ref: "#/components/responses/Error" },
+        },
+      },
+    },
+    "/openapi.json": {
+      get: { summary: "This document", responses: { "200": { description: "OpenAPI 3.1 document", content: { "application/json": {} } } } },
+    },
+    "/health": {
+      get: { summary: "Liveness check", responses: { "200": { description: "Service is up", content: { "application/json": {} } } } },
+    },
+  },
+  components: {
+    schemas: {
+      Deal: {
+        type: "object",
+        additionalProperties: false,
+        required: Object.keys(DEAL_COLUMNS).filter((k) => DEAL_COLUMNS[k].required),
+        properties: Object.fromEntries(Object.entries(DEAL_COLUMNS).map(([k, col]) => [k, columnSchema(col)])),
+      },
+      TaxBreakdown: {
+        type: "object",
+        properties: {
+          prorationEndYMD: { type: "string" },
+          daysInYear: { type: "integer" },
+          dailyRate: money,
+          daysAccrued: { type: "integer" },
+          accruedThisYear: money,
+          paidTotal: money,
+          unpaidPriorYear: money,
+          years: {
+            type: "array",
+            description: "Each open tax year, oldest first; debits add up to totalDebit",
+            items: {
+              type: "object",
+              properties: {
+                taxYear: { type: "integer" },
+                payYear: { type: "integer" },
+                amount: money,
+                estimated: { type: "boolean", description: "No bill entered; amount taken from the nearest bill" },
+                daysOwned: { type: "integer" },
+                daysInYear: { type: "integer" },
+                sellerShare: money,
+                paid: money,
+                debit: money,
+                latePenalty: money,
+              },
+            },
+          },
+          installments: {
+            type: "array",
+            description: "Spring and fall installment status of the prior_year_tax bill as of the closing date",
+            items: {
+              type: "object",
+              properties: {
+                installment: { type: "string", enum: ["spring", "fall"] },
+                dueYMD: { type: "string" },
+                dueBeforeClosing: { type: "boolean" },
+                markedPaid: { type: "boolean" },
+                delinquent: { type: "boolean" },
+                penaltyRate: { type: "number" },
+                penalty: money,
+              },
+            },
+          },
+          latePenalty: money,
+          estimate: {
+            type: ["object", "null"],
+            description: "Assessed-value estimate of the tax_year amount (tax_basis assessment); null when it came from the bill",
+            properties: {
+              grossAssessedValue: money,
+              deductions: { type: "array", items: item },
+              netAssessedValue: money,
+              districtRatePer100: { type: "number" },
+              grossTax: money,
+              capRate: { type: "number" },
+              cap: money,
+              capped: { type: "boolean" },
+              annualTax: money,
+            },
+          },
+          totalDebit: money,
+        },
+      },
+      NetSheetResult: {
+        type: "object",
+        required: ["deal", "seller", "tax", "warnings"],
+        properties: {
+          deal: {
+            type: "object",
+            properties: {
+              salePrice: money,
+              closingDate: { type: "string" },
+              county: { type: "string" },
+              transactionType: { type: "string", enum: ["with_loan", "cash"] },
+              feeSchedule: { type: "string" },
+              feeScheduleEffectiveFrom: { type: "string", description: "Version of the fee schedule in effect on the closing date; \"\" = undated" },
+            },
+          },
+          seller: {
+            type: "object",
+            properties: {
+              lines: { type: "array", items: line },
+              subtotals: { type: "object", properties: { commissions: money, closingCosts: money, totalDeductions: money } },
+              buyersCommission: { ...money, description: "Seller-paid part of the buyer’s agent commission" },
+              buyerBroker: {
+                type: "object",
+                description: "Who pays the buyer’s broker; a concession share is its own line and is credited to the buyer",
+                properties: { paidBy: { type: "string", enum: ["seller", "concession", "buyer", "split"] }, dualAgency: { type: "boolean" }, total: money, sellerPaid: money, concession: money, buyerPaid: money },
+              },
+              concessionLimit: {
+                type: ["object", "null"],
+                description: "The loan program’s cap on seller concessions; null for a cash sale",
+                properties: {
+                  program: { type: "string", enum: ["conventional", "fha", "va", "usda"] },
+                  capPct: { type: "number" },
+                  basis: { type: "string" },
+                  allowableCosts: money,
+                  maxAllowed: money,
+                  concessions: money,
+                  excess: { ...money, description: "Concessions over maxAllowed that the buyer can’t be credited with" },
+                },
+              },
+              commissionDetail: {
+                type: "object",
+                description: "How each side’s commission was figured; items sum to the side’s total (buyers is empty under dual_agency)",
+                properties: { listing: commission, buyers: commission },
+              },
+              liens: {
+                type: "array",
+                description: "Itemized lien payoffs, one per entry in liens; mortgagePayoff includes them",
+                items: { type: "object", properties: { label: { type: "string" }, items: { type: "array", items: item }, total: money } },
+              },
+              titleFees: { type: "array", items: item },
+              titleFeesTotal: money,
+              taxDebit: money,
+              hoa: {
+                type: "object",
+                description: "HOA dues proration and seller-paid association charges; each non-zero one is also a line",
+                properties: {
+                  proration: {
+                    type: ["object", "null"],
+                    description: "null without hoa_dues and hoa_paid_through",
+                    properties: {
+                      annualDues: money,
+                      dailyRate: { type: "number" },
+                      paidThroughYMD: { type: "string" },
+                      prorationEndYMD: { type: "string" },
+                      days: { type: "integer" },
+                      amount: { ...money, description: "Positive: prepaid dues credited to the seller; negative: dues owed" },
+                    },
+                  },
+                  charges: { type: "array", items: { type: "object", properties: { key: { type: "string" }, label: { type: "string" }, amount: money } } },
+                  chargesTotal: money,
+                  buyerCapitalContribution: money,
+                  incomplete: { type: "boolean" },
+                  net: money,
+                },
+              },
+              utilities: {
+                type: "array",
+                description: "Each utility’s usage since the paid-through date plus its final-bill holdback; utilitiesTotal is one line",
+                items: {
+                  type: "object",
+                  properties: {
+                    label: { type: "string" },
+                    dailyRate: { type: "number" },
+                    paidThroughYMD: { type: "string" },
+                    prorationEndYMD: { type: "string" },
+                    days: { type: "integer" },
+                    usage: money,
+                    holdback: money,
+                    items: { type: "array", items: item },
+                    total: money,
+                    incomplete: { type: "boolean" },
+                  },
+                },
+              },
+              utilitiesTotal: money,
+              estimatedNet: money,
+            },
+          },
+          ownerPolicy: { type: "object" },
+          lenderPolicy: { type: "object" },
+          tax: { $ref: "#/components/schemas/TaxBreakdown" },
+          taxParcels: {
+            type: "array",
+            description: "Each parcel’s own proration; tax is their combination",
+            items: { type: "object", properties: { parcelNumber: { type: "string" }, tax: { $ref: "#/components/schemas/TaxBreakdown" } } },
+          },
+          buyer: { type: "object" },
+          warnings: {
+            type: "array",
+            items: { type: "object", required: ["code", "message"], properties: { code: { type: "string" }, message: { type: "string" } } },
+          },
+        },
+      },
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: {
+          error: {
+            type: "object",
+            required: ["code", "message"],
+            properties: {
+              code: { type: "string", examples: ["invalid_request", "invalid_json", "payload_too_large", "unsupported_media_type"] },
+              message: { type: "string" },
+              details: {
+                type: "array",
+                items: { type: "object", required: ["field", "message"], properties: { field: { type: "string" }, message: { type: "string" } } },
+              },
+            },
+          },
+        },
+      },
+    },
+    responses: {
+      BadRequest: { description: "Malformed JSON or invalid fields; details lists every field problem", content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } },
+      Error: { description: "Request rejected", content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } },
+    },
+  },
+};
@@ -0,0 +1,64 @@
+import { round2 } from "./utils";
+
+// -----------------------------
+// Buyer Estimated Cash to Close
+// -----------------------------
+
+export type BuyerCashToClose = {
+  loanAmount: number;
+  downPayment: number;
+  titleFeesTotal: number;
+  lenderItemsTotal: number;
+  sellerConcessionsCredit: number;
+  taxProrationCredit: number;
+  /** Prepaid HOA dues reimbursed to the seller plus a buyer-paid capital contribution. */
+  hoaCharges: number;
+  /** Buyer’s broker compensation the seller does not pay directly (a concession passed through counts here). */
+  buyerBrokerCompensation: number;
+  cashToClose: number;
+};
+
+export function calcLoanAmount(salePrice: number, transactionType: "with_loan" | "cash", downPayment: number) {
+  if (transactionType === "cash") return 0;
+  const price = Math.max(salePrice || 0, 0);
+  return round2(price - Math.min(Math.max(downPayment || 0, 0), price));
+}
+
+export function calcBuyerCashToClose(opts: {
+  salePrice: number;
+  transactionType: "with_loan" | "cash";
+  downPayment: number;
+  titleFeesTotal: number;
+  lenderItemsTotal: number;
+  sellerConcessions: number;
+  taxProrationCredit: number;
+  hoaCharges: number;
+  buyerBrokerCompensation: number;
+}): BuyerCashToClose {
+  const price = Math.max(opts.salePrice || 0, 0);
+  // Cash deals have no loan: the whole price is effectively the "down payment"
+  const loanAmount = calcLoanAmount(price, opts.transactionType, opts.downPayment);
+  const downPayment = price - loanAmount;
+  const lenderItemsTotal = opts.transactionType === "cash" ? 0 : round2(opts.lenderItemsTotal);
+
+  const cashToClose =
+    downPayment +
+    opts.titleFeesTotal +
+    lenderItemsTotal +
+    Math.max(opts.hoaCharges || 0, 0) +
+    Math.max(opts.buyerBrokerCompensation || 0, 0) -
+    Math.max(opts.sellerConcessions || 0, 0) -
+    Math.max(opts.taxProrationCredit || 0, 0);
+
+  return {
+    loanAmount,
+    downPayment: round2(downPayment),
+    titleFeesTotal: round2(opts.titleFeesTotal),
+    lenderItemsTotal,
+    sellerConcessionsCredit: round2(Math.max(opts.sellerConcessions || 0, 0)),
+    taxProrationCredit: round2(Math.max(opts.taxProrationCredit || 0, 0)),
+    hoaCharges: round2(Math.max(opts.hoaCharges || 0, 0)),
+    buyerBrokerCompensation: round2(Math.max(opts.buyerBrokerCompensation || 0, 0)),
+    cashToClose: round2(cashToClose),
+  };
+}
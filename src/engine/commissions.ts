@@ -0,0 +1,165 @@
+import { round2, toMoney } from "./utils";
+
+// -----------------------------
+// Commission Structures (per side of the listing agreement)
+// -----------------------------
+
+export type CommissionType = "pct" | "flat" | "tiered" | "flat_plus_pct";
+
+export const COMMISSION_TYPES: Record<CommissionType, { label: string }> = {
+  pct: { label: "Percent of price" },
+  flat: { label: "Flat fee" },
+  tiered: { label: "Tiered" },
+  flat_plus_pct: { label: "Flat + percent" },
+};
+
+/** `pct` applies to the part of the price up to `upTo`; `upTo` 0 = everything above the previous tier. */
+export type CommissionTier = { upTo: number; pct: number };
+
+/**
+ * One side’s commission. `pct` and `flat` mean what they do in a `PctOrFlat` (and both
+ * apply for "flat_plus_pct"); `tiers` are used only for "tiered".
+ */
+export type Commission = {
+  type: CommissionType;
+  pct: number;
+  flat: number;
+  /** In ascending order, e.g. 3% up to $100,000 then 2.5% (upTo 0) on the rest. */
+  tiers: CommissionTier[];
+  /** Brokerage transaction / admin fee charged to the seller on top of the commission (0 = none). */
+  adminFee: number;
+  /** Share of the commission the brokerage pays a referring agent; informational, the seller’s cost is unchanged. */
+  referralPct: number;
+};
+
+export type CommissionBreakdown = {
+  /** How the commission was figured, then the admin fee; they sum to `total`. */
+  items: Array<{ label: string; amount: number }>;
+  total: number;
+  referralPct: number;
+  /** Paid by the brokerage out of the commission (admin fee excluded). */
+  referralFee: number;
+};
+
+export const NO_COMMISSION: Commission = { type: "flat", pct: 0, flat: 0, tiers: [], adminFee: 0, referralPct: 0 };
+
+// 2.5 -> "2.5%"; 2.75 -> "2.75%"
+function pctLabel(pct: number) {
+  return `${Number(pct.toFixed(3))}%`;
+}
+
+// Marginal tiers: 3% of the first $100,000 and 2.5% of the rest is $3,000 + 2.5% of price over $100,000
+function tierItems(tiers: CommissionTier[], salePrice: number) {
+  const items: Array<{ label: string; amount: number }> = [];
+  let floor = 0;
+  for (const tier of tiers) {
+    if (floor >= salePrice && items.length) break;
+    const pct = Math.max(tier.pct || 0, 0);
+    const cap = tier.upTo > 0 ? tier.upTo : Infinity;
+    const portion = Math.max(Math.min(salePrice, cap) - floor, 0);
+    const label =
+      cap === Infinity
+        ? floor > 0
+          ? `${pctLabel(pct)} of the rest above ${toMoney(floor)}`
+          : `${pctLabel(pct)} of ${toMoney(salePrice)}`
+        : floor > 0
+          ? `${pctLabel(pct)} of ${toMoney(floor)} – ${toMoney(cap)}`
+          : `${pctLabel(pct)} of the first ${toMoney(cap)}`;
+    items.push({ label, amount: round2(portion * (pct / 100)) });
+    if (cap === Infinity) break;
+    floor = Math.max(floor, cap);
+  }
+  return items;
+}
+
+export function calcCommission(c: Commission, salePrice: number): CommissionBreakdown {
+  const pct = c.pct || 0;
+  const flat = round2(c.flat || 0);
+  const ofPrice = { label: `${pctLabel(pct)} of ${toMoney(salePrice)}`, amount: round2(salePrice * (pct / 100)) };
+  const base =
+    c.type === "pct"
+      ? [ofPrice]
+      : c.type === "flat"
+        ? [{ label: "Flat fee", amount: flat }]
+        : c.type === "flat_plus_pct"
+          ? [{ label: "Flat fee", amount: flat }, ofPrice]
+          : tierItems(c.tiers, salePrice);
+  const commission = round2(base.reduce((sum, x) => sum + x.amount, 0));
+  const adminFee = round2(Math.max(c.adminFee || 0, 0));
+  const referralPct = Math.max(c.referralPct || 0, 0);
+
+  return {
+    items: [...base, ...(adminFee > 0 ? [{ label: "Brokerage transaction / admin fee", amount: adminFee }] : [])],
+    total: round2(commission + adminFee),
+    referralPct,
+    referralFee: round2(commission * (referralPct / 100)),
+  };
+}
+
+// "Referral fee 25% ($2,250.00), paid by the brokerage out of the commission" for the results card and PDF
+export function describeReferralFee(b: CommissionBreakdown) {
+  return `Referral fee ${pctLabel(b.referralPct)} (${toMoney(b.referralFee)}), paid by the brokerage out of the commission`;
+}
+
+// Anything beyond a single percent or flat amount gets its own itemization
+export function isItemizedCommission(b: CommissionBreakdown) {
+  return b.items.length > 1 || b.referralFee > 0;
+}
+
+// -----------------------------
+// Buyer-Broker Compensation (who pays)
+// -----------------------------
+
+// Buyer’s-agent compensation is negotiated deal by deal, not offered through the MLS
+export type BuyerBrokerPaidBy = "seller" | "concession" | "buyer" | "split";
+
+export const BUYER_BROKER_PAID_BY: Record<BuyerBrokerPaidBy, { label: string }> = {
+  seller: { label: "Seller pays" },
+  concession: { label: "From seller concessions" },
+  buyer: { label: "Buyer pays" },
+  split: { label: "Split" },
+};
+
+export type BuyerBrokerTerms = {
+  paidBy: BuyerBrokerPaidBy;
+  /** "split" only: the seller’s share of the compensation; the buyer pays the rest. */
+  sellerSharePct: number;
+};
+
+export type BuyerBrokerCompensation = {
+  paidBy: BuyerBrokerPaidBy;
+  /** The listing agent represents the buyer too, so there is no buyer’s broker to pay. */
+  dualAgency: boolean;
+  /** The buyer’s-agent commission however it is paid (0 under dual agency). */
+  total: number;
+  /** Deducted from the seller as the buyer’s agent commission. */
+  sellerPaid: number;
+  /** Credited to the buyer as a seller concession, which the buyer pays on to their broker. */
+  concession: number;
+  /** Paid by the buyer out of pocket. */
+  buyerPaid: number;
+};
+
+export function splitBuyerBrokerCompensation(total: number, terms: BuyerBrokerTerms, dualAgency: boolean): BuyerBrokerCompensation {
+  const sellerShare = terms.paidBy === "seller" ? 1 : terms.paidBy === "split" ? Math.min(Math.max(terms.sellerSharePct || 0, 0), 100) / 100 : 0;
+  const sellerPaid = round2(total * sellerShare);
+  const concession = terms.paidBy === "concession" ? total : 0;
+  return { paidBy: terms.paidBy, dualAgency, total, sellerPaid, concession, buyerPaid: round2(total - sellerPaid - concession) };
+}
+
+// Disclosure printed on every seller and buyer PDF
+export function describeBuyerBrokerCompensation(b: BuyerBrokerCompensation) {
+  const negotiable = "Broker compensation is not set by law and is fully negotiable.";
+  if (b.dualAgency) return `The listing brokerage represents both seller and buyer (dual agency); no separate buyer-broker compensation is paid. ${negotiable}`;
+  if (b.total <= 0) return `No buyer-broker compensation is included in this estimate. ${negotiable}`;
+  const amount = toMoney(b.total);
+  const how =
+    b.paidBy === "seller"
+      ? `the seller has agreed to pay the buyer’s broker ${amount} from the sale proceeds`
+      : b.paidBy === "concession"
+        ? `the buyer has requested ${amount} as a seller concession, paid on to the buyer’s broker at closing`
+        : b.paidBy === "buyer"
+          ? `the buyer pays their broker ${amount}; it is not deducted from the seller’s proceeds`
+          : `the seller pays ${toMoney(b.sellerPaid)} and the buyer pays ${toMoney(b.buyerPaid)} of the buyer’s broker’s ${amount}`;
+  return `Buyer-broker compensation: ${how}. ${negotiable}`;
+}
@@ -0,0 +1,68 @@
+import { round2, toMoney } from "./utils";
+
+// -----------------------------
+// Seller Concession Limits (interested-party contributions by loan program)
+// -----------------------------
+
+export type LoanProgram = "conventional" | "fha" | "va" | "usda";
+
+export const LOAN_PROGRAMS: Record<LoanProgram, { label: string }> = {
+  conventional: { label: "Conventional" },
+  fha: { label: "FHA" },
+  va: { label: "VA" },
+  usda: { label: "USDA" },
+};
+
+export type LoanTerms = {
+  program: LoanProgram;
+  /** VA only: the buyer’s normal closing costs and discount points paid by the seller, which sit outside the 4% cap. */
+  allowableCosts: number;
+};
+
+export type ConcessionLimit = {
+  program: LoanProgram;
+  /** Cap as a percent of the price, e.g. 6. */
+  capPct: number;
+  /** "6% of the price (10% – 25% down)" for the results card and PDF */
+  basis: string;
+  allowableCosts: number;
+  maxAllowed: number;
+  concessions: number;
+  /** Concessions over `maxAllowed`; the lender won’t let the buyer be credited with them. */
+  excess: number;
+};
+
+// Conventional caps step with the down payment (owner-occupied and second homes):
+// under 10% down 3%, 10% up to 25% down 6%, 25% or more down 9%
+function conventionalCap(downPaymentPct: number) {
+  if (downPaymentPct < 10) return { capPct: 3, note: "under 10% down" };
+  if (downPaymentPct < 25) return { capPct: 6, note: "10% – 25% down" };
+  return { capPct: 9, note: "25% or more down" };
+}
+
+// The cap is figured on the sale price; lenders use the lower of price and appraised value,
+// so a low appraisal lowers it further.
+export function calcConcessionLimit(loan: LoanTerms, salePrice: number, downPayment: number, concessions: number): ConcessionLimit {
+  const price = Math.max(salePrice || 0, 0);
+  const downPaymentPct = price > 0 ? (Math.max(downPayment || 0, 0) / price) * 100 : 0;
+  const program = loan.program in LOAN_PROGRAMS ? loan.program : "conventional";
+  const allowableCosts = program === "va" ? round2(Math.max(loan.allowableCosts || 0, 0)) : 0;
+
+  // FHA and USDA 6%; VA 4% plus the allowable costs
+  const { capPct, note } =
+    program === "conventional"
+      ? conventionalCap(downPaymentPct)
+      : { capPct: program === "va" ? 4 : 6, note: allowableCosts > 0 ? `plus ${toMoney(allowableCosts)} allowable costs` : "" };
+  const maxAllowed = round2(price * (capPct / 100) + allowableCosts);
+  const total = round2(Math.max(concessions || 0, 0));
+
+  return {
+    program,
+    capPct,
+    basis: `${capPct}% of the price${note ? ` (${note})` : ""}`,
+    allowableCosts,
+    maxAllowed,
+    concessions: total,
+    excess: round2(Math.max(total - maxAllowed, 0)),
+  };
+}
@@ -0,0 +1,351 @@
+import { IN_COUNTIES } from "./counties";
+import { COUNTY_RECORDING_FEES, getCountyRecordingFee, type CountyRecordingFee } from "./recording";
+import { isValidYMD } from "./utils";
+
+// -----------------------------
+// IHT Fee Schedules (Standard vs. Valpo, or the office’s edited set)
+// -----------------------------
+
+// Entries sharing a name are versions of one schedule; the deal’s closing date picks
+// the latest version in effect. effectiveFrom "" = no start date.
+export type FeeSchedule = {
+  name: string;
+  effectiveFrom: string;
+  settlementWithLoanSeller: number;
+  settlementCashSeller: number;
+  titleProcessingSeller: number;
+  closingProcessingSeller: number;
+  cplSeller: number;
+  tieffSeller: number;
+  docPrepSeller: number;
+  simplifilePerDoc: number;
+  transferPlusSDF: number;
+  cplBuyer: number;
+  tieffBuyer: number;
+};
+
+export const STANDARD_SCHEDULE: FeeSchedule = {
+  name: "Standard",
+  effectiveFrom: "",
+  settlementWithLoanSeller: 390,
+  settlementCashSeller: 290,
+  // legacy defaults for non-Valpo counties (keep unless you provide a different sheet)
+  titleProcessingSeller: 175,
+  closingProcessingSeller: 150,
+  cplSeller: 25,
+  tieffSeller: 5,
+  docPrepSeller: 125,
+  simplifilePerDoc: 4.25,
+  transferPlusSDF: 30,
+  cplBuyer: 25,
+  tieffBuyer: 5,
+};
+
+// Valparaiso schedule (effective 9/1/2025) — seller side values from your pasted table.
+// Valpo counties closing earlier fall back to the default (Standard) schedule.
+export const VALPO_SCHEDULE: FeeSchedule = {
+  name: "Valparaiso",
+  effectiveFrom: "2025-09-01",
+  settlementWithLoanSeller: 390,
+  settlementCashSeller: 290,
+  titleProcessingSeller: 225,
+  closingProcessingSeller: 175,
+  cplSeller: 25,
+  tieffSeller: 5,
+  docPrepSeller: 125,
+  simplifilePerDoc: 4.25,
+  transferPlusSDF: 30,
+  cplBuyer: 25,
+  tieffBuyer: 5,
+};
+
+export const VALPO_COUNTIES = new Set(
+  [
+    "Lake",
+    "Porter",
+    "LaPorte",
+    "St. Joseph",
+    "Elkhart",
+    "Kosciusko",
+    "Marshall",
+    "Fulton",
+    "Pulaski",
+    "Starke",
+    "Jasper",
+    "Newton",
+    "White",
+    "Cass",
+  ].map((x) => x.toLowerCase())
+);
+
+export type FeeScheduleField = Exclude<keyof FeeSchedule, "name" | "effectiveFrom">;
+
+// Every dollar field, in the order the admin screen lists them
+export const FEE_SCHEDULE_FIELDS: Array<{ key: FeeScheduleField; label: string }> = [
+  { key: "settlementWithLoanSeller", label: "Settlement fee, with loan (full; seller pays half)" },
+  { key: "settlementCashSeller", label: "Settlement fee, cash (full; seller pays half)" },
+  { key: "titleProcessingSeller", label: "Title processing (seller)" },
+  { key: "closingProcessingSeller", label: "Closing processing (seller)" },
+  { key: "cplSeller", label: "CPL (seller)" },
+  { key: "tieffSeller", label: "TIEFF (seller)" },
+  { key: "docPrepSeller", label: "Document prep (seller)" },
+  { key: "simplifilePerDoc", label: "Simplifile, per document" },
+  { key: "transferPlusSDF", label: "County transfer fee + SDF" },
+  { key: "cplBuyer", label: "CPL (buyer)" },
+  { key: "tieffBuyer", label: "TIEFF (buyer)" },
+];
+
+// -----------------------------
+// Runtime fee schedule configuration
+// -----------------------------
+
+// One dated version of the county recorders’ rates; like a schedule version, the closing date
+// picks the latest one in effect. Counties left out of `counties` pay the state flat rate.
+export type RecordingFeeTable = { effectiveFrom: string; counties: Record<string, CountyRecordingFee> };
+
+// Counties not listed in `counties` use `defaultSchedule`. Recording rates belong to the
+// county, not the office schedule, so they are one table for every schedule.
+export type FeeScheduleConfig = {
+  defaultSchedule: string;
+  schedules: FeeSchedule[];
+  counties: Record<string, string>;
+  recordingFees: RecordingFeeTable[];
+};
+
+export const DEFAULT_FEE_SCHEDULE_CONFIG: FeeScheduleConfig = {
+  defaultSchedule: STANDARD_SCHEDULE.name,
+  schedules: [STANDARD_SCHEDULE, VALPO_SCHEDULE],
+  counties: Object.fromEntries(IN_COUNTIES.filter((c) => VALPO_COUNTIES.has(c.toLowerCase())).map((c) => [c, VALPO_SCHEDULE.name])),
+  recordingFees: [{ effectiveFrom: "", counties: COUNTY_RECORDING_FEES }],
+};
+
+let activeConfig = DEFAULT_FEE_SCHEDULE_CONFIG;
+
+export function getFeeScheduleConfig(): FeeScheduleConfig {
+  return activeConfig;
+}
+
+// Pass a config that came through parseFeeScheduleConfig (or was built by the editor)
+export function setFeeScheduleConfig(config: FeeScheduleConfig) {
+  activeConfig = config;
+}
+
+export function resetFeeScheduleConfig() {
+  activeConfig = DEFAULT_FEE_SCHEDULE_CONFIG;
+}
+
+function assignedScheduleName(county: string, config = activeConfig) {
+  const key = (county || "").trim().toLowerCase();
+  return Object.entries(config.counties).find(([c]) => c.toLowerCase() === key)?.[1] ?? config.defaultSchedule;
+}
+
+// Versions of one schedule, oldest first
+export function getFeeScheduleVersions(name: string, config = activeConfig): FeeSchedule[] {
+  return config.schedules.filter((s) => s.name === name).sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+}
+
+// Latest version in effect on the closing date (YYYY-MM-DD); the newest version when no date is given
+function versionOn(name: string, closingYMD: string | undefined, config: FeeScheduleConfig) {
+  const versions = getFeeScheduleVersions(name, config).filter((s) => !closingYMD || s.effectiveFrom <= closingYMD);
+  return versions[versions.length - 1];
+}
+
+export function getFeeScheduleForCounty(county: string, closingYMD?: string, config = activeConfig): FeeSchedule {
+  const assigned = assignedScheduleName(county, config);
+  // Before a schedule’s first version takes effect, the county is on the default schedule
+  return (
+    versionOn(assigned, closingYMD, config) ??
+    versionOn(config.defaultSchedule, closingYMD, config) ??
+    getFeeScheduleVersions(assigned, config)[0] ??
+    STANDARD_SCHEDULE
+  );
+}
+
+// Dated version changes that can apply to a county (its schedule and the default fallback)
+export function getFeeScheduleChangeDates(county: string): string[] {
+  const names = new Set([assignedScheduleName(county), activeConfig.defaultSchedule]);
+  const dates = activeConfig.schedules.filter((s) => names.has(s.name) && s.effectiveFrom).map((s) => s.effectiveFrom);
+  return [...new Set(dates)].sort();
+}
+
+// Recording table versions, oldest first
+export function getRecordingFeeVersions(config = activeConfig): RecordingFeeTable[] {
+  return [...config.recordingFees].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+}
+
+// The county’s rate in the table in effect on the closing date (the newest table when no date
+// is given); closings before the first dated table use the oldest one
+export function getRecordingFeeForCounty(county: string, closingYMD?: string): CountyRecordingFee {
+  const versions = getRecordingFeeVersions();
+  const inEffect = versions.filter((t) => !closingYMD || t.effectiveFrom <= closingYMD);
+  return getCountyRecordingFee(county, (inEffect[inEffect.length - 1] ?? versions[0])?.counties);
+}
+
+function sameRecordingFee(a: CountyRecordingFee, b: CountyRecordingFee) {
+  return a.perDocument === b.perDocument && a.includedPages === b.includedPages && a.perAdditionalPage === b.perAdditionalPage;
+}
+
+// Dates a newer recording table changes what this county charges
+export function getRecordingFeeChangeDates(county: string): string[] {
+  const versions = getRecordingFeeVersions();
+  return versions
+    .filter((t, i) => i > 0 && t.effectiveFrom && !sameRecordingFee(getCountyRecordingFee(county, t.counties), getCountyRecordingFee(county, versions[i - 1].counties)))
+    .map((t) => t.effectiveFrom);
+}
+
+// -----------------------------
+// Fee schedule JSON files (admin export / import)
+// -----------------------------
+
+export const FEE_SCHEDULE_FILE_SCHEMA = "iht-net-sheet/fee-schedules";
+// v2 added effectiveFrom (v1 files read as one undated version per schedule); v3 dropped each
+// schedule’s Marion/other recording fees; v4 added the dated per-county recordingFees tables.
+// v1/v2 files’ recording fees become recording tables; v3 files get the built-in table.
+export const FEE_SCHEDULE_FILE_VERSION = 4;
+
+export type FeeScheduleFile = { schema: typeof FEE_SCHEDULE_FILE_SCHEMA; version: number; exportedAt: string } & FeeScheduleConfig;
+
+export type FeeScheduleConfigImport = { ok: true; config: FeeScheduleConfig } | { ok: false; errors: string[] };
+
+export function buildFeeScheduleFile(config: FeeScheduleConfig): FeeScheduleFile {
+  return { schema: FEE_SCHEDULE_FILE_SCHEMA, version: FEE_SCHEDULE_FILE_VERSION, exportedAt: new Date().toISOString(), ...config };
+}
+
+// Validates a whole configuration (an exported file or a bare config object) and
+// lists every problem, so a bad file never half-replaces the live fees.
+export function parseFeeScheduleConfig(raw: unknown): FeeScheduleConfigImport {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { ok: false, errors: ["Fee schedules must be a JSON object."] };
+  const file = raw as Record<string, unknown>;
+  if (file.schema !== undefined && file.schema !== FEE_SCHEDULE_FILE_SCHEMA) return { ok: false, errors: ["This is not a fee schedule file (unknown schema)."] };
+  if (typeof file.version === "number" && file.version > FEE_SCHEDULE_FILE_VERSION) {
+    return { ok: false, errors: [`This fee schedule file uses version ${file.version}; this calculator reads up to ${FEE_SCHEDULE_FILE_VERSION}.`] };
+  }
+
+  const errors: string[] = [];
+  const schedules: FeeSchedule[] = [];
+  // v1/v2 recording fees by schedule version
+  const legacyRecording = new Map<FeeSchedule, { marion: number; other: number }>();
+  if (!Array.isArray(file.schedules) || file.schedules.length === 0) errors.push("schedules must be a non-empty list.");
+
+  (Array.isArray(file.schedules) ? file.schedules : []).forEach((entry: unknown, i) => {
+    const s = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    const name = typeof s.name === "string" ? s.name.trim() : "";
+    const effectiveFrom = typeof s.effectiveFrom === "string" ? s.effectiveFrom.trim() : "";
+    const where = name ? `Schedule “${name}”${effectiveFrom ? ` (effective ${effectiveFrom})` : ""}` : `Schedule ${i + 1}`;
+    if (!name) errors.push(`${where}: name is required.`);
+    if ((s.effectiveFrom !== undefined && typeof s.effectiveFrom !== "string") || (effectiveFrom && !isValidYMD(effectiveFrom))) {
+      errors.push(`${where}: effectiveFrom must be a valid YYYY-MM-DD date, or "" for no start date.`);
+    } else if (name && schedules.some((x) => x.name === name && x.effectiveFrom === effectiveFrom)) {
+      errors.push(`${where}: more than one version is effective from ${effectiveFrom || "the start"}.`);
+    }
+
+    const schedule = { name, effectiveFrom } as FeeSchedule;
+    for (const { key } of FEE_SCHEDULE_FIELDS) {
+      const v = s[key];
+      if (typeof v !== "number" || !Number.isFinite(v) || v < 0) errors.push(`${where}: ${key} must be a non-negative number.`);
+      else schedule[key] = v;
+    }
+    const legacy = readLegacyRecordingFees(s, where, errors);
+    if (legacy) legacyRecording.set(schedule, legacy);
+    schedules.push(schedule);
+  });
+
+  const names = new Set(schedules.map((s) => s.name));
+  const defaultSchedule = typeof file.defaultSchedule === "string" ? file.defaultSchedule : "";
+  if (!names.has(defaultSchedule)) errors.push(`defaultSchedule “${defaultSchedule}” is not one of the schedules.`);
+
+  const counties: Record<string, string> = {};
+  const rawCounties = file.counties ?? {};
+  if (typeof rawCounties !== "object" || Array.isArray(rawCounties)) {
+    errors.push("counties must map county names to schedule names.");
+  } else {
+    for (const [county, scheduleName] of Object.entries(rawCounties as Record<string, unknown>)) {
+      const canonical = IN_COUNTIES.find((c) => c.toLowerCase() === county.trim().toLowerCase());
+      if (!canonical) errors.push(`counties: “${county}” is not an Indiana county.`);
+      else if (typeof scheduleName !== "string" || !names.has(scheduleName)) errors.push(`counties: ${canonical} is assigned to unknown schedule “${String(scheduleName)}”.`);
+      else counties[canonical] = scheduleName;
+    }
+  }
+
+  const recordingFees = file.recordingFees === undefined ? [] : parseRecordingFees(file.recordingFees, errors);
+  if (errors.length) return { ok: false, errors };
+
+  const config = { defaultSchedule, schedules, counties, recordingFees };
+  if (file.recordingFees === undefined) {
+    config.recordingFees = legacyRecording.size ? legacyRecordingFees(config, legacyRecording) : DEFAULT_FEE_SCHEDULE_CONFIG.recordingFees;
+  }
+  return { ok: true, config };
+}
+
+function parseRecordingFees(raw: unknown, errors: string[]): RecordingFeeTable[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    errors.push("recordingFees must be a non-empty list.");
+    return [];
+  }
+
+  const tables: RecordingFeeTable[] = [];
+  raw.forEach((entry: unknown, i) => {
+    const t = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    const effectiveFrom = typeof t.effectiveFrom === "string" ? t.effectiveFrom.trim() : "";
+    const where = `Recording fees ${effectiveFrom ? `effective ${effectiveFrom}` : i + 1}`;
+    if ((t.effectiveFrom !== undefined && typeof t.effectiveFrom !== "string") || (effectiveFrom && !isValidYMD(effectiveFrom))) {
+      errors.push(`${where}: effectiveFrom must be a valid YYYY-MM-DD date, or "" for no start date.`);
+    } else if (tables.some((x) => x.effectiveFrom === effectiveFrom)) {
+      errors.push(`${where}: more than one table is effective from ${effectiveFrom || "the start"}.`);
+    }
+
+    const counties: Record<string, CountyRecordingFee> = {};
+    if (!t.counties || typeof t.counties !== "object" || Array.isArray(t.counties)) {
+      errors.push(`${where}: counties must map county names to recording fees.`);
+    } else {
+      for (const [county, value] of Object.entries(t.counties as Record<string, unknown>)) {
+        const canonical = IN_COUNTIES.find((c) => c.toLowerCase() === county.trim().toLowerCase());
+        const row = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+        const { perDocument, includedPages, perAdditionalPage } = row;
+        if (!canonical) errors.push(`${where}: “${county}” is not an Indiana county.`);
+        else if (!isNonNegative(perDocument) || !isNonNegative(perAdditionalPage) || !Number.isInteger(includedPages) || (includedPages as number) < 1) {
+          errors.push(`${where}: ${canonical} needs a non-negative perDocument and perAdditionalPage and a whole includedPages of 1 or more.`);
+        } else counties[canonical] = { perDocument, includedPages: includedPages as number, perAdditionalPage };
+      }
+    }
+    tables.push({ effectiveFrom, counties });
+  });
+  return tables;
+}
+
+function isNonNegative(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0;
+}
+
+// v1/v2 schedules carried deed and mortgage recording as one Marion rate and one rate for every
+// other county; the deed rates are read (the mortgage ones only when a file has no deed rates)
+function readLegacyRecordingFees(s: Record<string, unknown>, where: string, errors: string[]) {
+  const marion = s.deedRecordingMarion ?? s.mortgageRecordingMarion;
+  const other = s.deedRecordingOther ?? s.mortgageRecordingOther;
+  if (marion === undefined && other === undefined) return null;
+  if (!isNonNegative(marion) || !isNonNegative(other)) {
+    errors.push(`${where}: deedRecordingMarion and deedRecordingOther must be non-negative numbers.`);
+    return null;
+  }
+  return { marion, other };
+}
+
+// One recording table per date any schedule version starts, each county at the rate its
+// schedule charged on that date (built-in rates for a schedule without recording fees)
+function legacyRecordingFees(config: FeeScheduleConfig, rates: Map<FeeSchedule, { marion: number; other: number }>): RecordingFeeTable[] {
+  const dates = [...new Set(config.schedules.map((s) => s.effectiveFrom))].sort();
+  const tables: RecordingFeeTable[] = [];
+  for (const effectiveFrom of dates) {
+    // "0001-01-01" stands in for "before every dated version"
+    const counties = Object.fromEntries(
+      IN_COUNTIES.map((county) => {
+        const rate = rates.get(getFeeScheduleForCounty(county, effectiveFrom || "0001-01-01", config));
+        const perDocument = rate ? (county === "Marion" ? rate.marion : rate.other) : null;
+        return [county, perDocument === null ? getCountyRecordingFee(county) : { perDocument, includedPages: 1, perAdditionalPage: 0 }];
+      })
+    );
+    const previous = tables[tables.length - 1];
+    if (!previous || JSON.stringify(previous.counties) !== JSON.stringify(counties)) tables.push({ effectiveFrom, counties });
+  }
+  return tables;
+}
@@ -0,0 +1,54 @@
+import { computeNetSheet, type NetSheetInput, type NetSheetResult } from "./netSheet";
+import { round2, toMoney } from "./utils";
+
+// -----------------------------
+// Goal Seek (sale price for a target net)
+// -----------------------------
+
+export const GOAL_SEEK_MAX_PRICE = 50_000_000;
+
+export type GoalSeekResult =
+  | { ok: true; salePrice: number; sellerConcessions: number; result: NetSheetResult }
+  | { ok: false; reason: string };
+
+// Concessions given as a % of price move with the price being solved for
+export function dealAtPrice(base: NetSheetInput, price: number, concessionsPct: number | null): NetSheetInput {
+  return {
+    ...base,
+    salePrice: price,
+    sellerConcessions: concessionsPct === null ? base.sellerConcessions : round2((price * concessionsPct) / 100),
+  };
+}
+
+// Lowest whole-dollar price whose estimated net reaches the target. Net is solved by
+// bisection over the full calculation, so price-dependent items (percentage commissions,
+// the tiered / above-$1M owner’s premium, lender’s policy, percentage concessions) are exact.
+// The owner’s chart steps can make net dip by a few dollars at a bracket edge; bisection
+// still lands on a price that meets the target.
+export function solveSalePriceForNet(base: NetSheetInput, targetNet: number, concessionsPct: number | null): GoalSeekResult {
+  const netAt = (price: number) => computeNetSheet(dealAtPrice(base, price, concessionsPct)).seller.estimatedNet;
+  const done = (price: number): GoalSeekResult => {
+    const input = dealAtPrice(base, price, concessionsPct);
+    return { ok: true, salePrice: price, sellerConcessions: input.sellerConcessions, result: computeNetSheet(input) };
+  };
+
+  if (!Number.isFinite(targetNet)) return { ok: false, reason: "Enter a target net amount." };
+  if (netAt(0) >= targetNet) return done(0);
+
+  const topNet = netAt(GOAL_SEEK_MAX_PRICE);
+  if (topNet < targetNet) {
+    if (topNet <= netAt(GOAL_SEEK_MAX_PRICE / 2)) {
+      return { ok: false, reason: "Net does not rise with price: percentage commissions, fees and concessions add up to 100% or more of the price." };
+    }
+    return { ok: false, reason: `No price up to ${toMoney(GOAL_SEEK_MAX_PRICE)} reaches that net (best: ${toMoney(topNet)}).` };
+  }
+
+  let lo = 0;
+  let hi = GOAL_SEEK_MAX_PRICE;
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (netAt(mid) >= targetNet) hi = mid;
+    else lo = mid;
+  }
+  return done(hi);
+}
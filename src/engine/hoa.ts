@@ -0,0 +1,104 @@
+import type { TaxSettings } from "./tax";
+import { addDaysUTC, dateFromInput, daysBetweenInclusiveUTC, formatYMD, isLeapYear, round2, toMoney, ymd } from "./utils";
+
+// -----------------------------
+// HOA Dues Proration + Association Charges
+// -----------------------------
+
+export type HoaDuesPeriod = "monthly" | "quarterly" | "annual";
+
+export const HOA_DUES_PERIODS: Record<HoaDuesPeriod, { label: string; perYear: number }> = {
+  monthly: { label: "Monthly", perYear: 12 },
+  quarterly: { label: "Quarterly", perYear: 4 },
+  annual: { label: "Annual", perYear: 1 },
+};
+
+/**
+ * Homeowners association dues and the charges the association bills at a sale.
+ * All zeros (the default) means no HOA.
+ */
+export type HoaSettings = {
+  /** Regular dues per billing period. */
+  duesAmount: number;
+  duesPeriod: HoaDuesPeriod;
+  /** Last day the seller’s paid dues cover, "YYYY-MM-DD"; "" = unknown (dues are not prorated). */
+  paidThroughDate: string;
+  transferFee: number;
+  /** Resale certificate / disclosure packet. */
+  resaleCertificateFee: number;
+  /** Capital (working-capital) contribution; it lands on whichever side pays it. */
+  capitalContribution: number;
+  capitalContributionPaidBy: "buyer" | "seller";
+  /** Special assessments levied before closing and still owed; the seller pays them off. */
+  specialAssessments: Array<{ label: string; amount: number }>;
+};
+
+export type HoaDuesProration = {
+  annualDues: number;
+  /** Annual dues over the days in the proration year (365 when the tax proration forces it). */
+  dailyRate: number;
+  paidThroughYMD: string;
+  /** The seller owns the home through this day (same choice as the tax proration). */
+  prorationEndYMD: string;
+  /** Days between paid-through and proration end, whichever way they fall. */
+  days: number;
+  /** Positive: prepaid past closing, credited to the seller. Negative: dues the seller still owes. */
+  amount: number;
+};
+
+export type HoaBreakdown = {
+  /** null when there are no dues, or no paid-through date to prorate from. */
+  proration: HoaDuesProration | null;
+  /** Seller-paid charges in statement order, each its own net sheet line; zero charges are left out. */
+  charges: Array<{ key: string; label: string; amount: number }>;
+  chargesTotal: number;
+  /** Capital contribution when the buyer pays it. */
+  buyerCapitalContribution: number;
+  /** Dues entered but no paid-through date. */
+  incomplete: boolean;
+  /** Proration less charges: the HOA’s net effect on the seller (negative = deduction). */
+  net: number;
+};
+
+// Dues are prorated on the same day count as the taxes and utilities
+export function calcHoaCharges(hoa: HoaSettings, closingUTC: Date, tax: Pick<TaxSettings, "prorateThrough" | "force365">): HoaBreakdown {
+  const dues = round2(Math.max(hoa.duesAmount || 0, 0));
+  const paidThrough = dateFromInput(hoa.paidThroughDate || "");
+  let proration: HoaDuesProration | null = null;
+
+  if (dues > 0 && paidThrough) {
+    const end = tax.prorateThrough === "closing_date" ? closingUTC : addDaysUTC(closingUTC, -1);
+    const annualDues = round2(dues * (HOA_DUES_PERIODS[hoa.duesPeriod]?.perYear ?? 12));
+    const dailyRate = annualDues / (tax.force365 ? 365 : isLeapYear(end.getUTCFullYear()) ? 366 : 365);
+    const prepaid = paidThrough > end;
+    const days = prepaid ? daysBetweenInclusiveUTC(end, paidThrough) - 1 : daysBetweenInclusiveUTC(paidThrough, end) - 1;
+    const amount = round2(dailyRate * days);
+    proration = { annualDues, dailyRate, paidThroughYMD: ymd(paidThrough), prorationEndYMD: ymd(end), days, amount: prepaid || amount === 0 ? amount : -amount };
+  }
+
+  const capital = round2(Math.max(hoa.capitalContribution || 0, 0));
+  const charges = [
+    { key: "hoa_transfer", label: "HOA transfer fee", amount: hoa.transferFee },
+    { key: "hoa_resale", label: "HOA resale certificate / disclosure", amount: hoa.resaleCertificateFee },
+    { key: "hoa_capital", label: "HOA capital contribution", amount: hoa.capitalContributionPaidBy === "seller" ? capital : 0 },
+    ...hoa.specialAssessments.map((a, i) => ({ key: `hoa_special_${i + 1}`, label: `Special assessment${a.label.trim() ? ` (${a.label.trim()})` : ""}`, amount: a.amount })),
+  ]
+    .map((c) => ({ ...c, amount: round2(Math.max(c.amount || 0, 0)) }))
+    .filter((c) => c.amount > 0);
+  const chargesTotal = round2(charges.reduce((sum, c) => sum + c.amount, 0));
+
+  return {
+    proration,
+    charges,
+    chargesTotal,
+    buyerCapitalContribution: hoa.capitalContributionPaidBy === "buyer" ? capital : 0,
+    incomplete: dues > 0 && !paidThrough,
+    net: round2((proration?.amount ?? 0) - chargesTotal),
+  };
+}
+
+// "HOA dues prepaid through 3/31/2026 (21 days at $1.64/day)" for the results card and PDF
+export function describeHoaProration(p: HoaDuesProration) {
+  const days = `${p.days} day(s) at ${toMoney(p.dailyRate)}/day`;
+  return p.amount >= 0 ? `HOA dues prepaid through ${formatYMD(p.paidThroughYMD)} (${days})` : `HOA dues owed after ${formatYMD(p.paidThroughYMD)} (${days})`;
+}
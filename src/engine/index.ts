@@ -0,0 +1,22 @@
+// Headless net sheet engine: plain TypeScript, no React or DOM, so the same math
+// runs in the browser, in Node scripts and in tests.
+
+export * from "./buyer";
+export * from "./commissions";
+export * from "./concessions";
+export * from "./counties";
+export * from "./csv";
+export * from "./feeSchedules";
+export * from "./goalSeek";
+export * from "./hoa";
+export * from "./liens";
+export * from "./netSheet";
+export * from "./offers";
+export * from "./recording";
+export * from "./tax";
+export * from "./taxAssessment";
+export * from "./taxBill";
+export * from "./titleFees";
+export * from "./titlePremiums";
+export * from "./utilities";
+export * from "./utils";
@@ -0,0 +1,131 @@
+import { addMonthsUTC, dateFromInput, daysBetweenInclusiveUTC, formatYMD, round2, toMoney, ymd } from "./utils";
+
+// -----------------------------
+// Lien Payoffs (payoff statement or amortization estimate)
+// -----------------------------
+
+export type LienKind = "first_mortgage" | "second_mortgage" | "heloc" | "judgment";
+
+export const LIEN_KINDS: Record<LienKind, { label: string }> = {
+  first_mortgage: { label: "First mortgage" },
+  second_mortgage: { label: "Second mortgage" },
+  heloc: { label: "HELOC" },
+  judgment: { label: "Judgment lien" },
+};
+
+export type LienPayoffMethod = "statement" | "amortized";
+
+/**
+ * One lien to pay off at closing. `method` picks which group of fields prices it;
+ * the other group is ignored. Dates are "YYYY-MM-DD", rates whole percents.
+ */
+export type Lien = {
+  kind: LienKind;
+  /** Lender or creditor for the line label; "" = the kind’s label. */
+  holder: string;
+  method: LienPayoffMethod;
+  /** Payoff statement: amount good through `goodThroughDate`, extended at `perDiem` to closing. */
+  statementAmount: number;
+  goodThroughDate: string;
+  perDiem: number;
+  /** Estimate: assumes every scheduled payment due before closing was made on time. */
+  originalAmount: number;
+  ratePct: number;
+  termMonths: number;
+  firstPaymentDate: string;
+  releaseFee: number;
+  prepaymentFee: number;
+};
+
+export type LienPayoff = {
+  label: string;
+  method: LienPayoffMethod;
+  /** Statement amount, or the amortized balance after the last payment before closing. */
+  principal: number;
+  /** Interest accrues from this date to closing ("" when it could not be dated). */
+  interestFrom: string;
+  interestDays: number;
+  perDiem: number;
+  interest: number;
+  releaseFee: number;
+  prepaymentFee: number;
+  /** Detail lines under `label` for the UI and PDF; they sum to `total`. */
+  items: Array<{ label: string; amount: number }>;
+  total: number;
+  /** Set when the lien lacks the dates or terms needed to price it fully. */
+  incomplete: boolean;
+};
+
+function monthlyPayment(amount: number, monthlyRate: number, months: number) {
+  if (monthlyRate === 0) return amount / months;
+  return (amount * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months));
+}
+
+// Balance left after `paid` scheduled payments
+function amortizedBalance(amount: number, monthlyRate: number, months: number, paid: number) {
+  if (paid >= months) return 0;
+  if (monthlyRate === 0) return amount - (amount / months) * paid;
+  const growth = Math.pow(1 + monthlyRate, paid);
+  return amount * growth - (monthlyPayment(amount, monthlyRate, months) * (growth - 1)) / monthlyRate;
+}
+
+function amortizedPrincipal(lien: Lien, closingUTC: Date) {
+  const firstPayment = dateFromInput(lien.firstPaymentDate || "");
+  const months = Math.round(lien.termMonths || 0);
+  const amount = Math.max(lien.originalAmount || 0, 0);
+  // Without the terms, the original amount is the safe (high) figure
+  if (!firstPayment || months <= 0 || amount <= 0) return { principal: round2(amount), accrualStart: null };
+
+  // Payments fall on the first payment’s day each month; each covers the prior month’s interest
+  let paid = 0;
+  while (paid < months && addMonthsUTC(firstPayment, paid) < closingUTC) paid++;
+  const balance = amortizedBalance(amount, (lien.ratePct || 0) / 100 / 12, months, paid);
+  return { principal: round2(Math.max(balance, 0)), accrualStart: addMonthsUTC(firstPayment, paid - 1) };
+}
+
+export function calcLienPayoff(lien: Lien, closingUTC: Date): LienPayoff {
+  const kindLabel = LIEN_KINDS[lien.kind]?.label ?? "Lien";
+  const label = lien.holder.trim() ? `${kindLabel} (${lien.holder.trim()})` : kindLabel;
+  let principal: number;
+  let accrualStart: Date | null;
+  let perDiem: number;
+
+  if (lien.method === "amortized") {
+    ({ principal, accrualStart } = amortizedPrincipal(lien, closingUTC));
+    perDiem = round2((principal * ((lien.ratePct || 0) / 100)) / 365);
+  } else {
+    principal = round2(Math.max(lien.statementAmount || 0, 0));
+    accrualStart = dateFromInput(lien.goodThroughDate || "");
+    perDiem = round2(Math.max(lien.perDiem || 0, 0));
+  }
+
+  // A statement good past closing is used as quoted (never discounted back)
+  const interestDays = accrualStart && principal > 0 ? Math.max(daysBetweenInclusiveUTC(accrualStart, closingUTC) - 1, 0) : 0;
+  const interest = round2(perDiem * interestDays);
+  const releaseFee = round2(Math.max(lien.releaseFee || 0, 0));
+  const prepaymentFee = round2(Math.max(lien.prepaymentFee || 0, 0));
+  const interestFrom = accrualStart ? ymd(accrualStart) : "";
+
+  const basis = lien.method === "amortized" ? "Estimated balance" : interestFrom ? `Payoff good through ${formatYMD(interestFrom)}` : "Payoff statement";
+  const items = [
+    { label: basis, amount: principal },
+    { label: `Interest, ${interestDays} day(s) at ${toMoney(perDiem)}/day`, amount: interest },
+    { label: "Release / reconveyance fee", amount: releaseFee },
+    { label: "Prepayment fee", amount: prepaymentFee },
+  ].filter((x, i) => i === 0 || x.amount > 0);
+
+  return {
+    label,
+    method: lien.method,
+    principal,
+    interestFrom,
+    interestDays,
+    perDiem,
+    interest,
+    releaseFee,
+    prepaymentFee,
+    items,
+    total: round2(principal + interest + releaseFee + prepaymentFee),
+    incomplete: principal > 0 && !accrualStart && (lien.method === "amortized" || perDiem > 0),
+  };
+}
@@ -0,0 +1,534 @@
+import { calcBuyerCashToClose, calcLoanAmount, type BuyerCashToClose } from "./buyer";
+import {
+  calcCommission,
+  NO_COMMISSION,
+  splitBuyerBrokerCompensation,
+  type BuyerBrokerCompensation,
+  type BuyerBrokerTerms,
+  type Commission,
+  type CommissionBreakdown,
+} from "./commissions";
+import { calcConcessionLimit, LOAN_PROGRAMS, type ConcessionLimit, type LoanTerms } from "./concessions";
+import { getFeeScheduleChangeDates, getFeeScheduleForCounty, getRecordingFeeChangeDates } from "./feeSchedules";
+import { calcHoaCharges, describeHoaProration, type HoaBreakdown, type HoaSettings } from "./hoa";
+import { calcLienPayoff, type Lien, type LienPayoff } from "./liens";
+import type { RecordedDocument } from "./recording";
+import {
+  calcIndianaTaxProration,
+  combineTaxBreakdowns,
+  describeTaxParcel,
+  isOpenTaxYear,
+  TAX_YEAR_LOOKBACK,
+  type TaxBreakdown,
+  type TaxParcel,
+  type TaxParcelBreakdown,
+  type TaxSettings,
+} from "./tax";
+import { calcIhtBuyerTitleFees, calcIhtSellerTitleFees } from "./titleFees";
+import { calcUtilityProration, type UtilityAccount, type UtilityProration } from "./utilities";
+import {
+  calcLenderPolicyCharges,
+  calcOwnersPolicyPremium,
+  calcOwnersReissuePremium,
+  getOwnerPremiumChartChangeDates,
+  getOwnerPremiumChartVersion,
+  type EndorsementCode,
+  type LenderPolicySettings,
+  type OwnerPremiumChartVersion,
+  type OwnerPremiumChoice,
+  type OwnerReissueQuote,
+  type TitleFeeItem,
+} from "./titlePremiums";
+import { daysBetweenInclusiveUTC, dateFromInput, formatYMD, round2, toMoney, todayUTC, ymd } from "./utils";
+
+// -----------------------------
+// computeNetSheet: one deal in, every figure the UI / PDF shows out
+// -----------------------------
+
+export type TransactionType = "with_loan" | "cash";
+
+/** A percent of the sale price or a flat dollar amount, whichever `type` selects. */
+export type PctOrFlat = { type: "pct" | "flat"; pct: number; flat: number };
+
+export type CostItem = { label: string; amount: number };
+
+/**
+ * Everything needed to price one deal. Money is in dollars, percents are whole
+ * numbers (3 = 3%), dates are "YYYY-MM-DD".
+ */
+export type NetSheetInput = {
+  salePrice: number;
+  /** Drives tax accrual days, the reissue look-back and which fee schedule / chart version applies; an invalid date falls back to today (with a warning). */
+  closingDate: string;
+  /** Indiana county name; picks the fee schedule and the county recording fees. */
+  county: string;
+  transactionType: TransactionType;
+  /** "with_loan" only: the loan program sets the cap on `sellerConcessions`. */
+  loan: LoanTerms;
+  listingCommission: Commission;
+  buyersCommission: Commission;
+  /** The listing agent represents both sides: `listingCommission` is the reduced combined rate and no buyer’s agent commission is paid. */
+  dualAgency: boolean;
+  /** Who pays `buyersCommission`: only the seller’s share is deducted as a commission. */
+  buyerBroker: BuyerBrokerTerms;
+  /** Lump-sum payoff not itemized in `liens` (0 = none). */
+  mortgagePayoff: number;
+  /** Mortgages, HELOCs and judgments paid off at closing, priced to the closing date. */
+  liens: Lien[];
+  sellerConcessions: number;
+  otherCosts: CostItem[];
+  title: NetSheetTitleInput;
+  tax: TaxSettings;
+  /** Parcels beyond the one in `tax`, e.g. a detached garage lot or farm ground. */
+  taxParcels: TaxParcel[];
+  /** Dues are prorated through the same day as `tax.prorateThrough`. */
+  hoa: HoaSettings;
+  /** Sewer, water and other utilities billed in arrears, prorated on the tax day count. */
+  utilities: UtilityAccount[];
+  buyer: NetSheetBuyerInput;
+};
+
+export type NetSheetTitleInput = {
+  useSimplifile: boolean;
+  /** Price the owner’s policy from the chart; when false `ownerPolicyPremium` is used as typed (0 = none). */
+  autoOwnerPolicy: boolean;
+  ownerPolicyChoice: OwnerPremiumChoice;
+  ownerPolicyPremium: number;
+  /** Reissue credit only ever discounts the chart premium. */
+  applyReissue: boolean;
+  priorPolicyAmount: number;
+  /** "" when there is no prior policy. */
+  priorPolicyDate: string;
+  includeSettlementFee: boolean;
+  includeDocumentPrep: boolean;
+  includeCPL: boolean;
+  includeTIEFF: boolean;
+  /** Documents the seller records; each is charged at the county’s rate plus Simplifile when `useSimplifile`. */
+  recordedDocuments: RecordedDocument[];
+  includeTransferFeeSDF: boolean;
+  lendersPolicyPaidBy: "buyer" | "seller";
+  endorsements: EndorsementCode[];
+};
+
+export type NetSheetBuyerInput = {
+  downPayment: PctOrFlat;
+  lenderItems: CostItem[];
+  includeSettlementFee: boolean;
+  includeCPL: boolean;
+  includeTIEFF: boolean;
+  includeMortgageRecording: boolean;
+  /** Pages in the buyer’s mortgage, priced at the county’s per-page rate. */
+  mortgagePages: number;
+};
+
+/** Signed summary line: the sale price is positive, every deduction negative. */
+export type NetSheetLine = { key: string; label: string; amount: number };
+
+export type NetSheetWarning = {
+  code:
+    | "invalid_closing_date"
+    | "no_sale_price"
+    | "reissue_not_eligible"
+    | "reissue_manual_premium"
+    | "paid_exceeds_tax"
+    | "negative_net"
+    | "rate_change_near_closing"
+    | "lien_estimated"
+    | "lien_incomplete"
+    | "tax_installment_not_due"
+    | "tax_installment_delinquent"
+    | "tax_year_estimated"
+    | "tax_year_ignored"
+    | "tax_estimate_incomplete"
+    | "hoa_paid_through_missing"
+    | "utility_incomplete"
+    | "concessions_over_limit";
+  message: string;
+};
+
+export type NetSheetResult = {
+  deal: {
+    salePrice: number;
+    /** Normalized closing date actually used. */
+    closingDate: string;
+    county: string;
+    transactionType: TransactionType;
+    feeSchedule: string;
+    /** Version of `feeSchedule` in effect on the closing date ("" = undated). */
+    feeScheduleEffectiveFrom: string;
+  };
+  seller: {
+    /** Sale price, then each deduction in statement order; sums to `estimatedNet`. */
+    lines: NetSheetLine[];
+    subtotals: {
+      /** Listing + the seller’s share of the buyer’s agent. */
+      commissions: number;
+      /** Concessions (incl. buyer-broker compensation paid as one) + other seller-paid costs + IHT title fees + HOA charges. */
+      closingCosts: number;
+      /** Everything taken out of the sale price. */
+      totalDeductions: number;
+    };
+    listingCommission: number;
+    /** Seller-paid part of the buyer’s agent commission; `buyerBroker` has who pays the rest. */
+    buyersCommission: number;
+    buyerBroker: BuyerBrokerCompensation;
+    /** How each side’s commission was figured (the buyer’s side is empty under dual agency). */
+    commissionDetail: { listing: CommissionBreakdown; buyers: CommissionBreakdown };
+    /** Lump sum plus every lien payoff. */
+    mortgagePayoff: number;
+    liens: LienPayoff[];
+    sellerConcessions: number;
+    /** The loan program’s cap on concessions; null for a cash sale. */
+    concessionLimit: ConcessionLimit | null;
+    otherCosts: CostItem[];
+    otherCostsTotal: number;
+    titleFees: TitleFeeItem[];
+    titleFeesTotal: number;
+    taxDebit: number;
+    /** Late penalties on installments delinquent at closing (its own line, not credited to the buyer). */
+    taxPenalty: number;
+    /** Dues proration and association charges; only the non-zero ones appear in `lines`. */
+    hoa: HoaBreakdown;
+    /** Each utility’s usage through closing plus its holdback; one `utilities` line when there are any. */
+    utilities: UtilityProration[];
+    utilitiesTotal: number;
+    estimatedNet: number;
+  };
+  ownerPolicy: {
+    chart: ReturnType<typeof calcOwnersPolicyPremium>;
+    /** Owner’s chart version in effect on the closing date. */
+    chartVersion: OwnerPremiumChartVersion;
+    reissue: OwnerReissueQuote;
+    reissueApplied: boolean;
+    /** Premium that lands on the seller’s title fees. */
+    premium: number;
+  };
+  /** Priced whenever there is a loan, whoever pays for it. */
+  lenderPolicy: {
+    loanAmount: number;
+    simultaneous: boolean;
+    paidBy: "buyer" | "seller";
+    items: TitleFeeItem[];
+    total: number;
+  };
+  /** Every parcel combined; `taxParcels` has each parcel’s own proration. */
+  tax: TaxBreakdown;
+  taxParcels: TaxParcelBreakdown[];
+  buyer: {
+    titleFees: TitleFeeItem[];
+    titleFeesTotal: number;
+    lenderItems: CostItem[];
+    lenderItemsTotal: number;
+    cash: BuyerCashToClose;
+  };
+  warnings: NetSheetWarning[];
+};
+
+// Which dated rates priced the deal, as labels for the UI and PDFs
+export function describeRateVersions(sheet: NetSheetResult) {
+  const dated = (label: string, effectiveFrom: string) => (effectiveFrom ? `${label} (effective ${formatYMD(effectiveFrom)})` : label);
+  return {
+    feeSchedule: dated(`${sheet.deal.feeSchedule} fee schedule`, sheet.deal.feeScheduleEffectiveFrom),
+    ownerChart: dated(sheet.ownerPolicy.chartVersion.label, sheet.ownerPolicy.chartVersion.effectiveFrom),
+  };
+}
+
+export function resolvePctOrFlat(v: PctOrFlat, salePrice: number) {
+  return round2(v.type === "pct" ? salePrice * ((v.pct || 0) / 100) : v.flat || 0);
+}
+
+// Rate changes this close to closing make the estimate sensitive to the closing date slipping
+export const RATE_CHANGE_WARNING_DAYS = 30;
+
+function rateChangeWarnings(county: string, closingUTC: Date): NetSheetWarning[] {
+  const closingYMD = ymd(closingUTC);
+  const changes = [
+    ...getFeeScheduleChangeDates(county).map((date) => ({ date, what: "IHT fee schedule" })),
+    ...getRecordingFeeChangeDates(county).map((date) => ({ date, what: "county recording fee" })),
+    ...getOwnerPremiumChartChangeDates().map((date) => ({ date, what: "owner’s premium chart" })),
+  ];
+
+  return changes.flatMap(({ date, what }): NetSheetWarning[] => {
+    const changeUTC = dateFromInput(date);
+    if (!changeUTC) return [];
+    if (date > closingYMD) {
+      const days = daysBetweenInclusiveUTC(closingUTC, changeUTC) - 1;
+      if (days > RATE_CHANGE_WARNING_DAYS) return [];
+      return [{ code: "rate_change_near_closing", message: `The ${what} changes on ${formatYMD(date)}, ${days} day(s) after closing; if closing slips to or past that date, fees will differ from this estimate.` }];
+    }
+    const days = daysBetweenInclusiveUTC(changeUTC, closingUTC) - 1;
+    if (days >= RATE_CHANGE_WARNING_DAYS) return [];
+    return [{ code: "rate_change_near_closing", message: `The ${what} changed on ${formatYMD(date)}, ${days} day(s) before closing; this estimate uses the new rates, which would not apply if closing moves earlier.` }];
+  });
+}
+
+// Bill, estimate and installment-calendar checks for one parcel’s open tax years
+function taxYearWarnings(tax: TaxBreakdown, closingYear: number, prefix: string): NetSheetWarning[] {
+  const warnings: NetSheetWarning[] = [];
+  for (const y of tax.years) {
+    const bill = `${y.taxYear} pay ${y.payYear}`;
+    if (y.paid > y.amount + 0.005) {
+      warnings.push({ code: "paid_exceeds_tax", message: `${prefix}Paid installments add up to more than the ${bill} tax; check the tax bill.` });
+    }
+    if (y.amount <= 0) continue;
+    if (y.estimated) {
+      if (y.taxYear < closingYear) {
+        warnings.push({
+          code: "tax_year_estimated",
+          message: `${prefix}No ${bill} tax bill was entered; the seller’s full-year share is estimated at ${toMoney(y.amount)} and treated as unpaid.`,
+        });
+      }
+      continue;
+    }
+    for (const inst of y.installments) {
+      const name = `${inst.installment === "spring" ? "Spring" : "Fall"} installment of the ${bill} bill`;
+      if (inst.markedPaid && !inst.dueBeforeClosing) {
+        warnings.push({ code: "tax_installment_not_due", message: `${prefix}${name} is not due until ${formatYMD(inst.dueYMD)}, after closing, but is marked paid; confirm it was paid early.` });
+      } else if (inst.delinquent) {
+        warnings.push({
+          code: "tax_installment_delinquent",
+          message: `${prefix}${name} was due ${formatYMD(inst.dueYMD)} and is not marked paid; a ${Math.round(inst.penaltyRate * 100)}% late penalty (${toMoney(inst.penalty)}) was added.`,
+        });
+      }
+    }
+  }
+  return warnings;
+}
+
+function roundItems(items: CostItem[]) {
+  return items.map((c) => ({ label: c.label, amount: round2(c.amount || 0) }));
+}
+
+function sumItems(items: CostItem[]) {
+  return round2(items.reduce((sum, c) => sum + c.amount, 0));
+}
+
+export function computeNetSheet(input: NetSheetInput): NetSheetResult {
+  const warnings: NetSheetWarning[] = [];
+  const salePrice = round2(Math.max(input.salePrice || 0, 0));
+  if (salePrice <= 0) warnings.push({ code: "no_sale_price", message: "Sale price is zero; enter a price to see premiums and commissions." });
+
+  const parsedClosing = dateFromInput(input.closingDate || "");
+  if (!parsedClosing) warnings.push({ code: "invalid_closing_date", message: "Closing date is missing or invalid; today’s date was used." });
+  const closingUTC = parsedClosing ?? todayUTC();
+  const closingDate = ymd(closingUTC);
+
+  // Commissions
+  const commissionDetail = {
+    listing: calcCommission(input.listingCommission, salePrice),
+    buyers: calcCommission(input.dualAgency ? NO_COMMISSION : input.buyersCommission, salePrice),
+  };
+  const listingCommission = commissionDetail.listing.total;
+  const buyerBroker = splitBuyerBrokerCompensation(commissionDetail.buyers.total, input.buyerBroker, input.dualAgency);
+  const buyersCommission = buyerBroker.sellerPaid;
+
+  // Payoffs (lump sum + each lien extended to closing)
+  const liens = input.liens.map((lien) => calcLienPayoff(lien, closingUTC));
+  const mortgagePayoff = round2((input.mortgagePayoff || 0) + liens.reduce((sum, l) => sum + l.total, 0));
+  for (const l of liens) {
+    if (l.incomplete) {
+      warnings.push({ code: "lien_incomplete", message: `${l.label}: add the ${l.method === "amortized" ? "loan terms and first payment date" : "good-through date"} to extend the payoff to closing.` });
+    } else if (l.method === "amortized" && l.principal > 0) {
+      warnings.push({ code: "lien_estimated", message: `${l.label} is estimated from the loan terms; order a payoff statement before closing.` });
+    }
+  }
+  const sellerConcessions = round2(input.sellerConcessions || 0);
+  const otherCosts = roundItems(input.otherCosts);
+  const otherCostsTotal = sumItems(otherCosts);
+
+  // Owner’s policy (chart, reissue or typed-in)
+  const t = input.title;
+  const chart = calcOwnersPolicyPremium(salePrice, t.ownerPolicyChoice, closingDate);
+  const reissue = calcOwnersReissuePremium({
+    liabilityAmount: salePrice,
+    choice: t.ownerPolicyChoice,
+    priorPolicyAmount: t.priorPolicyAmount,
+    priorPolicyDate: dateFromInput(t.priorPolicyDate || ""),
+    closingUTC,
+  });
+  const reissueApplied = t.autoOwnerPolicy && t.applyReissue && reissue.eligible;
+  const ownerPolicyPremium = !t.autoOwnerPolicy ? round2(t.ownerPolicyPremium || 0) : reissueApplied ? reissue.discountedPremium : chart.chosen;
+  if (t.applyReissue && !t.autoOwnerPolicy) {
+    warnings.push({ code: "reissue_manual_premium", message: "Reissue credit is not applied to a manually entered owner’s premium." });
+  } else if (t.applyReissue && !reissue.eligible) {
+    warnings.push({ code: "reissue_not_eligible", message: "Prior policy does not qualify for the reissue rate; the full chart premium was used." });
+  }
+
+  // Lender’s policy ("with_loan" only)
+  const downPayment = input.buyer.downPayment.type === "pct" ? salePrice * ((input.buyer.downPayment.pct || 0) / 100) : input.buyer.downPayment.flat || 0;
+  const loanAmount = calcLoanAmount(salePrice, input.transactionType, downPayment);
+
+  // Buyer-broker compensation is left out: the agencies don't count a customary broker fee as a concession
+  const concessionLimit = input.transactionType === "with_loan" ? calcConcessionLimit(input.loan, salePrice, downPayment, sellerConcessions) : null;
+  if (concessionLimit && concessionLimit.excess > 0) {
+    warnings.push({
+      code: "concessions_over_limit",
+      message: `Seller concessions exceed the ${LOAN_PROGRAMS[concessionLimit.program].label} limit of ${toMoney(concessionLimit.maxAllowed)} (${concessionLimit.basis}); the ${toMoney(concessionLimit.excess)} excess can’t be credited to the buyer.`,
+    });
+  }
+  const lenderPolicy: LenderPolicySettings = {
+    loanAmount,
+    ownerLiability: salePrice,
+    // Simultaneous rate applies whenever an owner’s policy is written on the same deal
+    simultaneous: ownerPolicyPremium > 0,
+    choice: t.ownerPolicyChoice,
+    endorsements: t.endorsements,
+  };
+  const lenderPolicyCharges = calcLenderPolicyCharges(lenderPolicy);
+
+  const sellerFees = calcIhtSellerTitleFees({
+    transactionType: input.transactionType,
+    county: input.county,
+    closingDate,
+    useSimplifile: t.useSimplifile,
+    ownerPolicyPremium,
+    ownerPolicyReissue: reissueApplied,
+    includeSettlementFee: t.includeSettlementFee,
+    includeDocumentPrep: t.includeDocumentPrep,
+    includeCPL: t.includeCPL,
+    includeTIEFF: t.includeTIEFF,
+    recordedDocuments: t.recordedDocuments,
+    includeTransferFeeSDF: t.includeTransferFeeSDF,
+    lenderPolicy: t.lendersPolicyPaidBy === "seller" ? lenderPolicy : null,
+  });
+
+  // Taxes (Indiana arrears), prorated parcel by parcel; extra parcels share the main parcel’s tax year
+  const parcelSettings: TaxSettings[] = [
+    input.tax,
+    ...input.taxParcels.map((p) => ({ ...input.tax, ...p, basis: "bill" as const, otherYears: [] })),
+  ];
+  const taxParcels = parcelSettings.map((settings) => ({ parcelNumber: settings.parcelNumber, tax: calcIndianaTaxProration(closingUTC, settings) }));
+  const tax = combineTaxBreakdowns(taxParcels.map((p) => p.tax));
+  if (tax.estimate && (tax.estimate.grossAssessedValue <= 0 || tax.estimate.districtRatePer100 <= 0)) {
+    warnings.push({ code: "tax_estimate_incomplete", message: "The tax estimate needs both the gross assessed value and the district tax rate; it is $0 until both are entered." });
+  }
+  const closingYear = closingUTC.getUTCFullYear();
+  const enteredYears = [input.tax.taxYear || closingYear - 1, ...input.tax.otherYears.map((b) => b.taxYear)];
+  for (const taxYear of enteredYears.filter((y) => !isOpenTaxYear(y, closingYear))) {
+    warnings.push({
+      code: "tax_year_ignored",
+      message: `The ${taxYear} tax bill was ignored; only tax years ${closingYear - TAX_YEAR_LOOKBACK} through ${closingYear} can be open at a ${closingYear} closing.`,
+    });
+  }
+  for (const [i, p] of taxParcels.entries()) {
+    const prefix = taxParcels.length > 1 ? `${describeTaxParcel(p, i)}: ` : "";
+    warnings.push(...taxYearWarnings(p.tax, closingYear, prefix));
+  }
+  const taxDebit = round2(tax.totalDebit);
+  const taxPenalty = tax.latePenalty;
+
+  // HOA dues (either direction) and association charges
+  const hoa = calcHoaCharges(input.hoa, closingUTC, input.tax);
+  if (hoa.incomplete) {
+    warnings.push({ code: "hoa_paid_through_missing", message: "Enter the date HOA dues are paid through to prorate them; no dues proration is included." });
+  }
+  const hoaLines: NetSheetLine[] = [
+    ...(hoa.proration && hoa.proration.amount !== 0 ? [{ key: "hoa_dues", label: describeHoaProration(hoa.proration), amount: hoa.proration.amount }] : []),
+    ...hoa.charges.map((c) => ({ key: c.key, label: c.label, amount: -c.amount })),
+  ];
+
+  // Utilities: usage since the last paid bill plus any final-bill holdback
+  const utilities = input.utilities.map((u) => calcUtilityProration(u, closingUTC, input.tax));
+  const utilitiesTotal = round2(utilities.reduce((sum, u) => sum + u.total, 0));
+  for (const u of utilities.filter((x) => x.incomplete)) {
+    warnings.push({ code: "utility_incomplete", message: `${u.label}: add the date the last paid bill runs through to prorate usage; only the holdback is included.` });
+  }
+
+  // Seller summary
+  const lines: NetSheetLine[] = [
+    { key: "price", label: "Sale price", amount: salePrice },
+    { key: "listing", label: input.dualAgency ? "Listing agent commission (dual agency, both sides)" : "Listing agent commission", amount: -listingCommission },
+    { key: "buyers", label: buyerBroker.paidBy === "split" ? "Buyer’s agent commission (seller’s share)" : "Buyer’s agent commission", amount: -buyersCommission },
+    ...(buyerBroker.concession > 0 ? [{ key: "buyers_concession", label: "Seller concession for buyer’s broker compensation", amount: -buyerBroker.concession }] : []),
+    { key: "payoff", label: "Mortgage / lien payoffs", amount: -mortgagePayoff },
+    { key: "concessions", label: "Seller concessions", amount: -sellerConcessions },
+    { key: "other", label: "Other seller-paid costs", amount: -otherCostsTotal },
+    { key: "title", label: "IHT title fees (seller)", amount: -sellerFees.total },
+    { key: "tax", label: "Estimated property tax proration (IN arrears)", amount: -taxDebit },
+    { key: "tax_penalty", label: "Delinquent tax penalties", amount: -taxPenalty },
+    ...hoaLines,
+    ...(utilities.length ? [{ key: "utilities", label: "Utilities through closing + holdbacks", amount: -utilitiesTotal }] : []),
+  ];
+  const estimatedNet = sumItems(lines);
+  const commissions = round2(listingCommission + buyersCommission);
+  const closingCosts = round2(sellerConcessions + buyerBroker.concession + otherCostsTotal + sellerFees.total + hoa.chargesTotal);
+  if (estimatedNet < 0) warnings.push({ code: "negative_net", message: "Deductions exceed the sale price; the seller would need to bring funds to closing." });
+
+  // Buyer side of the same deal
+  const buyerFees = calcIhtBuyerTitleFees({
+    transactionType: input.transactionType,
+    county: input.county,
+    closingDate,
+    useSimplifile: t.useSimplifile,
+    includeSettlementFee: input.buyer.includeSettlementFee,
+    includeCPL: input.buyer.includeCPL,
+    includeTIEFF: input.buyer.includeTIEFF,
+    includeMortgageRecording: input.buyer.includeMortgageRecording,
+    mortgagePages: input.buyer.mortgagePages,
+    lenderPolicy: t.lendersPolicyPaidBy === "buyer" ? lenderPolicy : null,
+  });
+  const lenderItems = roundItems(input.buyer.lenderItems);
+  const lenderItemsTotal = sumItems(lenderItems);
+  const cash = calcBuyerCashToClose({
+    salePrice,
+    transactionType: input.transactionType,
+    downPayment,
+    titleFeesTotal: buyerFees.total,
+    lenderItemsTotal,
+    sellerConcessions: round2(sellerConcessions + buyerBroker.concession),
+    // The buyer pays their broker whatever the seller does not, including a concession passed through
+    buyerBrokerCompensation: round2(buyerBroker.concession + buyerBroker.buyerPaid),
+    // The seller's arrears debit is credited to the buyer on the settlement statement
+    taxProrationCredit: taxDebit,
+    // Dues the seller prepaid past closing are reimbursed by the buyer; dues owed go to the HOA
+    hoaCharges: round2(Math.max(hoa.proration?.amount ?? 0, 0) + hoa.buyerCapitalContribution),
+  });
+
+  warnings.push(...rateChangeWarnings(input.county, closingUTC));
+  const feeSchedule = getFeeScheduleForCounty(input.county, closingDate);
+
+  return {
+    deal: {
+      salePrice,
+      closingDate,
+      county: input.county,
+      transactionType: input.transactionType,
+      feeSchedule: feeSchedule.name,
+      feeScheduleEffectiveFrom: feeSchedule.effectiveFrom,
+    },
+    seller: {
+      lines,
+      subtotals: { commissions, closingCosts, totalDeductions: round2(salePrice - estimatedNet) },
+      listingCommission,
+      buyersCommission,
+      buyerBroker,
+      commissionDetail,
+      mortgagePayoff,
+      liens,
+      sellerConcessions,
+      concessionLimit,
+      otherCosts,
+      otherCostsTotal,
+      titleFees: sellerFees.items,
+      titleFeesTotal: sellerFees.total,
+      taxDebit,
+      taxPenalty,
+      hoa,
+      utilities,
+      utilitiesTotal,
+      estimatedNet,
+    },
+    ownerPolicy: { chart, chartVersion: getOwnerPremiumChartVersion(closingDate), reissue, reissueApplied, premium: ownerPolicyPremium },
+    lenderPolicy: {
+      loanAmount,
+      simultaneous: lenderPolicy.simultaneous,
+      paidBy: t.lendersPolicyPaidBy,
+      items: lenderPolicyCharges.items,
+      total: lenderPolicyCharges.total,
+    },
+    tax,
+    taxParcels,
+    buyer: { titleFees: buyerFees.items, titleFeesTotal: buyerFees.total, lenderItems, lenderItemsTotal, cash },
+    warnings,
+  };
+}
@@ -0,0 +1,98 @@
+import { NO_COMMISSION, type Commission } from "./commissions";
+import { computeNetSheet, type NetSheetInput, type NetSheetLine, type TransactionType } from "./netSheet";
+import { round2 } from "./utils";
+
+// -----------------------------
+// Multiple-Offer Comparison
+// -----------------------------
+
+export type OfferKind = "standard" | "instant_cash";
+
+/** What one offer changes about the base deal; everything else (payoff, taxes, title toggles) is shared. */
+export type OfferTerms = {
+  id: string;
+  label: string;
+  kind: OfferKind;
+  salePrice: number;
+  sellerConcessions: number;
+  closingDate: string;
+  transactionType: TransactionType;
+  listingCommission: Commission;
+  buyersCommission: Commission;
+  homeWarranty: number;
+  /** Instant cash offers only: % of price kept by the buyer, plus a flat repair deduction. */
+  serviceFeePct: number;
+  repairDeduction: number;
+};
+
+export type OfferResult = { id: string; label: string; kind: OfferKind; lines: NetSheetLine[]; estimatedNet: number };
+
+export function isHomeWarrantyCost(label: string) {
+  return /home\s*warranty/i.test(label);
+}
+
+// Each offer replaces the deal’s price, concessions, closing date, loan type, both agent
+// commissions and home warranty line; payoff, taxes and title toggles come from the base deal.
+export function offerNetSheetInput(base: NetSheetInput, offer: OfferTerms): NetSheetInput {
+  const instant = offer.kind === "instant_cash";
+  // Instant buyers charge a service fee instead of agent commissions
+  return {
+    ...base,
+    salePrice: offer.salePrice,
+    sellerConcessions: offer.sellerConcessions,
+    closingDate: offer.closingDate,
+    transactionType: instant ? "cash" : offer.transactionType,
+    listingCommission: instant ? NO_COMMISSION : offer.listingCommission,
+    buyersCommission: instant ? NO_COMMISSION : offer.buyersCommission,
+    otherCosts: [...base.otherCosts.filter((c) => !isHomeWarrantyCost(c.label)), { label: "Home warranty", amount: offer.homeWarranty }],
+  };
+}
+
+export function calcOfferResult(base: NetSheetInput, offer: OfferTerms): OfferResult {
+  const sheet = computeNetSheet(offerNetSheetInput(base, offer));
+  const r = sheet.seller;
+  const instant = offer.kind === "instant_cash";
+  const homeWarranty = round2(offer.homeWarranty || 0);
+  const serviceFee = instant ? round2(sheet.deal.salePrice * ((offer.serviceFeePct || 0) / 100)) : 0;
+  const repairDeduction = instant ? round2(offer.repairDeduction || 0) : 0;
+
+  const lines: NetSheetLine[] = [
+    { key: "price", label: "Sale price", amount: sheet.deal.salePrice },
+    { key: "listing", label: "Listing agent commission", amount: -r.listingCommission },
+    { key: "buyers", label: "Buyer’s agent commission", amount: -r.buyersCommission },
+    { key: "buyers_concession", label: "Buyer’s broker compensation (concession)", amount: -r.buyerBroker.concession },
+    { key: "concessions", label: "Seller concessions", amount: -r.sellerConcessions },
+    { key: "warranty", label: "Home warranty", amount: -homeWarranty },
+    { key: "other", label: "Other costs", amount: -round2(r.otherCostsTotal - homeWarranty) },
+    { key: "service", label: "Instant-offer service fee", amount: -serviceFee },
+    { key: "repairs", label: "Repair deduction", amount: -repairDeduction },
+    { key: "payoff", label: "Mortgage / lien payoffs", amount: -r.mortgagePayoff },
+    { key: "title", label: "IHT title fees (seller)", amount: -r.titleFeesTotal },
+    { key: "tax", label: "Tax proration (IN arrears)", amount: -r.taxDebit },
+    { key: "tax_penalty", label: "Delinquent tax penalties", amount: -r.taxPenalty },
+    { key: "hoa", label: "HOA dues, fees and assessments", amount: r.hoa.net },
+    { key: "utilities", label: "Utilities through closing + holdbacks", amount: -r.utilitiesTotal },
+  ];
+
+  return {
+    id: offer.id,
+    label: offer.label || "Offer",
+    kind: offer.kind,
+    lines,
+    estimatedNet: round2(r.estimatedNet - serviceFee - repairDeduction),
+  };
+}
+
+export function bestOfferIndex(results: OfferResult[]) {
+  return results.reduce((best, r, i) => (best < 0 || r.estimatedNet > results[best].estimatedNet ? i : best), -1);
+}
+
+// Line keys whose amount is not the same in every offer column
+export function differingOfferLines(results: OfferResult[]) {
+  const keys = new Set<string>();
+  if (results.length < 2) return keys;
+  for (const line of results[0].lines) {
+    if (results.some((r) => r.lines.find((x) => x.key === line.key)?.amount !== line.amount)) keys.add(line.key);
+  }
+  return keys;
+}
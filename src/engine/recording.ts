@@ -0,0 +1,152 @@
+import { IN_COUNTIES } from "./counties";
+import type { TitleFeeItem } from "./titlePremiums";
+import { round2 } from "./utils";
+
+// -----------------------------
+// County Recording Fees + Recorded Documents
+// -----------------------------
+
+export type RecordingDocumentType = "deed" | "corrective_deed" | "mortgage_release" | "power_of_attorney" | "affidavit";
+
+// Documents a seller commonly records, in the order the document picker lists them
+export const RECORDING_DOCUMENTS: Record<RecordingDocumentType, { label: string }> = {
+  deed: { label: "Deed" },
+  corrective_deed: { label: "Corrective deed" },
+  mortgage_release: { label: "Mortgage release" },
+  power_of_attorney: { label: "Power of attorney" },
+  affidavit: { label: "Affidavit" },
+};
+
+export type RecordedDocument = { type: RecordingDocumentType; pages: number };
+
+// Base fee covers `includedPages`; each page past that adds `perAdditionalPage`
+export type CountyRecordingFee = { perDocument: number; includedPages: number; perAdditionalPage: number };
+
+// Indiana’s flat per-document recording fee (no page charge)
+const STATE_FLAT: CountyRecordingFee = { perDocument: 25, includedPages: 1, perAdditionalPage: 0 };
+
+// Built-in rates, one row per entry in IN_COUNTIES; the office’s edited, dated tables live in
+// the fee schedule config (see getRecordingFeeForCounty)
+export const COUNTY_RECORDING_FEES: Record<string, CountyRecordingFee> = {
+  Adams: STATE_FLAT,
+  Allen: STATE_FLAT,
+  Bartholomew: STATE_FLAT,
+  Benton: STATE_FLAT,
+  Blackford: STATE_FLAT,
+  Boone: STATE_FLAT,
+  Brown: STATE_FLAT,
+  Carroll: STATE_FLAT,
+  Cass: STATE_FLAT,
+  Clark: STATE_FLAT,
+  Clay: STATE_FLAT,
+  Clinton: STATE_FLAT,
+  Crawford: STATE_FLAT,
+  Daviess: STATE_FLAT,
+  Dearborn: STATE_FLAT,
+  Decatur: STATE_FLAT,
+  DeKalb: STATE_FLAT,
+  Delaware: STATE_FLAT,
+  Dubois: STATE_FLAT,
+  Elkhart: STATE_FLAT,
+  Fayette: STATE_FLAT,
+  Floyd: STATE_FLAT,
+  Fountain: STATE_FLAT,
+  Franklin: STATE_FLAT,
+  Fulton: STATE_FLAT,
+  Gibson: STATE_FLAT,
+  Grant: STATE_FLAT,
+  Greene: STATE_FLAT,
+  Hamilton: STATE_FLAT,
+  Hancock: STATE_FLAT,
+  Harrison: STATE_FLAT,
+  Hendricks: STATE_FLAT,
+  Henry: STATE_FLAT,
+  Howard: STATE_FLAT,
+  Huntington: STATE_FLAT,
+  Jackson: STATE_FLAT,
+  Jasper: STATE_FLAT,
+  Jay: STATE_FLAT,
+  Jefferson: STATE_FLAT,
+  Jennings: STATE_FLAT,
+  Johnson: STATE_FLAT,
+  Knox: STATE_FLAT,
+  Kosciusko: STATE_FLAT,
+  LaGrange: STATE_FLAT,
+  Lake: STATE_FLAT,
+  LaPorte: STATE_FLAT,
+  Lawrence: STATE_FLAT,
+  Madison: STATE_FLAT,
+  Marion: { perDocument: 35, includedPages: 1, perAdditionalPage: 0 },
+  Marshall: STATE_FLAT,
+  Martin: STATE_FLAT,
+  Miami: STATE_FLAT,
+  Monroe: STATE_FLAT,
+  Montgomery: STATE_FLAT,
+  Morgan: STATE_FLAT,
+  Newton: STATE_FLAT,
+  Noble: STATE_FLAT,
+  Ohio: STATE_FLAT,
+  Orange: STATE_FLAT,
+  Owen: STATE_FLAT,
+  Parke: STATE_FLAT,
+  Perry: STATE_FLAT,
+  Pike: STATE_FLAT,
+  Porter: STATE_FLAT,
+  Posey: STATE_FLAT,
+  Pulaski: STATE_FLAT,
+  Putnam: STATE_FLAT,
+  Randolph: STATE_FLAT,
+  Ripley: STATE_FLAT,
+  Rush: STATE_FLAT,
+  "St. Joseph": STATE_FLAT,
+  Scott: STATE_FLAT,
+  Shelby: STATE_FLAT,
+  Spencer: STATE_FLAT,
+  Starke: STATE_FLAT,
+  Steuben: STATE_FLAT,
+  Sullivan: STATE_FLAT,
+  Switzerland: STATE_FLAT,
+  Tippecanoe: STATE_FLAT,
+  Tipton: STATE_FLAT,
+  Union: STATE_FLAT,
+  Vanderburgh: STATE_FLAT,
+  Vermillion: STATE_FLAT,
+  Vigo: STATE_FLAT,
+  Wabash: STATE_FLAT,
+  Warren: STATE_FLAT,
+  Warrick: STATE_FLAT,
+  Washington: STATE_FLAT,
+  Wayne: STATE_FLAT,
+  Wells: STATE_FLAT,
+  White: STATE_FLAT,
+  Whitley: STATE_FLAT,
+};
+
+const COUNTY_BY_KEY = new Map(IN_COUNTIES.map((c) => [c.toLowerCase(), c]));
+
+export function getCountyRecordingFee(county: string, fees: Record<string, CountyRecordingFee> = COUNTY_RECORDING_FEES): CountyRecordingFee {
+  const name = COUNTY_BY_KEY.get((county || "").trim().toLowerCase());
+  return (name && fees[name]) || STATE_FLAT;
+}
+
+export function calcRecordingFee(fee: CountyRecordingFee, pages: number): number {
+  const pageCount = Math.max(1, Math.ceil(pages || 1));
+  return round2(fee.perDocument + Math.max(0, pageCount - fee.includedPages) * fee.perAdditionalPage);
+}
+
+// "Recording fee: deed (2 pages)"
+export function recordingFeeLabel(document: string, pages: number) {
+  return `Recording fee: ${document} (${pages} ${pages === 1 ? "page" : "pages"})`;
+}
+
+// One recording line per document, each followed by its own Simplifile charge when e-recorded
+export function calcRecordingCharges(fee: CountyRecordingFee, documents: RecordedDocument[], simplifilePerDoc: number | null): TitleFeeItem[] {
+  const items: TitleFeeItem[] = [];
+  for (const doc of documents) {
+    const label = (RECORDING_DOCUMENTS[doc.type]?.label ?? "Document").toLowerCase();
+    const pages = Math.max(1, Math.ceil(doc.pages || 1));
+    items.push({ label: recordingFeeLabel(label, pages), amount: calcRecordingFee(fee, pages) });
+    if (simplifilePerDoc !== null) items.push({ label: `Simplifile submission (${label})`, amount: simplifilePerDoc });
+  }
+  return items;
+}
@@ -0,0 +1,292 @@
+import { calcAssessedValueTax, type TaxAssessmentEstimate, type TaxAssessmentInput } from "./taxAssessment";
+import { addDaysUTC, daysBetweenInclusiveUTC, isLeapYear, round2, toMoney, ymd } from "./utils";
+
+// -----------------------------
+// Tax Proration (Indiana arrears)
+// -----------------------------
+
+/**
+ * A tax year’s bill. Indiana assesses in `taxYear` and bills it the following
+ * year (the pay year) in spring and fall installments. Paid amounts of 0
+ * mean half the bill.
+ */
+export type TaxYearBill = {
+  taxYear: number;
+  amount: number;
+  springPaid: boolean;
+  springPaidAmount: number;
+  fallPaid: boolean;
+  fallPaidAmount: number;
+};
+
+export type TaxSettings = {
+  /** County parcel (key) number, for labels only. */
+  parcelNumber: string;
+  /** Where the `taxYear` amount comes from: `priorYearTax` or an estimate from `assessment`. */
+  basis: "bill" | "assessment";
+  /** The bill for `taxYear`; it is also the estimate for any open year without a bill. */
+  priorYearTax: number;
+  assessment: TaxAssessmentInput;
+  /** Tax (assessment) year of `priorYearTax`; 0 = the year before closing. */
+  taxYear: number;
+  springPaid: boolean;
+  springPaidAmount: number;
+  fallPaid: boolean;
+  fallPaidAmount: number;
+  /** Bills for other tax years, e.g. an older year still unpaid. */
+  otherYears: TaxYearBill[];
+  prorateThrough: "day_before" | "closing_date";
+  force365: boolean;
+};
+
+/**
+ * Another parcel in the same sale, with its own bill for the main parcel’s
+ * tax year. Paid amounts of 0 mean half the bill.
+ */
+export type TaxParcel = {
+  parcelNumber: string;
+  priorYearTax: number;
+  springPaid: boolean;
+  springPaidAmount: number;
+  fallPaid: boolean;
+  fallPaidAmount: number;
+};
+
+export type TaxInstallmentName = "spring" | "fall";
+
+export type TaxInstallmentStatus = {
+  installment: TaxInstallmentName;
+  /** Statutory due date after the next-business-day rule. */
+  dueYMD: string;
+  /** Due before the closing date, so it should already be paid. */
+  dueBeforeClosing: boolean;
+  markedPaid: boolean;
+  /** Due before closing and not marked paid. */
+  delinquent: boolean;
+  /** Share of the installment charged as penalty (0 unless delinquent). */
+  penaltyRate: number;
+  penalty: number;
+};
+
+/** The seller’s share of one tax year, less what was paid on its bill. */
+export type TaxYearBreakdown = {
+  taxYear: number;
+  payYear: number;
+  amount: number;
+  /** No bill entered for this year; `amount` comes from the nearest entered bill. */
+  estimated: boolean;
+  /** Days of the year the seller owned (all of it for years before closing). */
+  daysOwned: number;
+  daysInYear: number;
+  sellerShare: number;
+  paid: number;
+  debit: number;
+  installments: TaxInstallmentStatus[];
+  latePenalty: number;
+};
+
+export type TaxBreakdown = {
+  prorationEndYMD: string;
+  /** Closing-year accrual: days, daily rate and amount. */
+  daysInYear: number;
+  dailyRate: number;
+  daysAccrued: number;
+  accruedThisYear: number;
+  paidTotal: number;
+  /** Unpaid balance of every open year before the closing year. */
+  unpaidPriorYear: number;
+  totalDebit: number;
+  /** Every open tax year, oldest first; the debits add up to `totalDebit`. Combined parcels list every parcel’s installments. */
+  years: TaxYearBreakdown[];
+  /** Expected status of each installment of the `priorYearTax` bill. */
+  installments: TaxInstallmentStatus[];
+  /** Late penalties on delinquent installments of every year; charged to the seller apart from `totalDebit`. */
+  latePenalty: number;
+  /** How the `taxYear` amount was estimated; null when it came from the bill. */
+  estimate: TaxAssessmentEstimate | null;
+};
+
+// -----------------------------
+// Installment calendar + late penalties (IC 6-1.1-22-9, IC 6-1.1-37-10)
+// -----------------------------
+
+// 5% when paid within 30 days of the due date, 10% after that, plus 10% more after each
+// later due date passes. Assumes no earlier delinquency on the parcel.
+export const LATE_PENALTY_GRACE_DAYS = 30;
+export const LATE_PENALTY_WITHIN_GRACE = 0.05;
+export const LATE_PENALTY_RATE = 0.1;
+
+// May 10 / Nov 10, moved to the next business day when the 10th falls on a weekend
+export function taxInstallmentDueDate(year: number, installment: TaxInstallmentName) {
+  let due = new Date(Date.UTC(year, installment === "spring" ? 4 : 10, 10));
+  while (due.getUTCDay() === 0 || due.getUTCDay() === 6) due = addDaysUTC(due, 1);
+  return due;
+}
+
+function installmentStatus(closingUTC: Date, payYear: number, installment: TaxInstallmentName, markedPaid: boolean, amount: number): TaxInstallmentStatus {
+  const due = taxInstallmentDueDate(payYear, installment);
+  const dueBeforeClosing = due.getTime() < closingUTC.getTime();
+  const delinquent = dueBeforeClosing && !markedPaid;
+
+  let penaltyRate = 0;
+  if (delinquent) {
+    const daysLate = daysBetweenInclusiveUTC(due, closingUTC) - 1;
+    penaltyRate = daysLate <= LATE_PENALTY_GRACE_DAYS ? LATE_PENALTY_WITHIN_GRACE : LATE_PENALTY_RATE;
+    // Another 10% for each later due date that passes before closing
+    let [nextYear, next]: [number, TaxInstallmentName] = installment === "spring" ? [payYear, "fall"] : [payYear + 1, "spring"];
+    while (taxInstallmentDueDate(nextYear, next).getTime() < closingUTC.getTime()) {
+      penaltyRate += LATE_PENALTY_RATE;
+      [nextYear, next] = next === "spring" ? [nextYear, "fall"] : [nextYear + 1, "spring"];
+    }
+  }
+
+  return {
+    installment,
+    dueYMD: ymd(due),
+    dueBeforeClosing,
+    markedPaid,
+    delinquent,
+    penaltyRate,
+    penalty: round2(amount * penaltyRate),
+  };
+}
+
+// Older bills would have gone to tax sale; later ones are not the seller’s
+export const TAX_YEAR_LOOKBACK = 5;
+
+export function isOpenTaxYear(taxYear: number, closingYear: number) {
+  return Number.isInteger(taxYear) && taxYear >= closingYear - TAX_YEAR_LOOKBACK && taxYear <= closingYear;
+}
+
+// The open years run from the oldest entered bill through the closing year. A year
+// without a bill is estimated from the nearest earlier bill (later if none), and its
+// installments are treated as unpaid but not penalized since nothing is known of them.
+export function calcIndianaTaxProration(closingUTC: Date, tax: TaxSettings): TaxBreakdown {
+  const year = closingUTC.getUTCFullYear();
+  const jan1 = new Date(Date.UTC(year, 0, 1));
+  const prorationEnd = tax.prorateThrough === "day_before" ? addDaysUTC(closingUTC, -1) : closingUTC;
+
+  const estimate = tax.basis === "assessment" ? calcAssessedValueTax(tax.assessment) : null;
+  const mainBill: TaxYearBill = {
+    taxYear: tax.taxYear || year - 1,
+    amount: estimate ? estimate.annualTax : tax.priorYearTax,
+    springPaid: tax.springPaid,
+    springPaidAmount: tax.springPaidAmount,
+    fallPaid: tax.fallPaid,
+    fallPaidAmount: tax.fallPaidAmount,
+  };
+  const bills = new Map<number, TaxYearBill>();
+  for (const b of [...(tax.otherYears ?? []), mainBill]) {
+    if (isOpenTaxYear(b.taxYear, year)) bills.set(b.taxYear, b);
+  }
+  const billYears = [...bills.keys()].sort((a, b) => a - b);
+  const estimateFor = (taxYear: number) => {
+    const basis = [...billYears].reverse().find((y) => y < taxYear) ?? billYears.find((y) => y > taxYear);
+    return basis === undefined ? 0 : Math.max(bills.get(basis)!.amount || 0, 0);
+  };
+
+  const years: TaxYearBreakdown[] = [];
+  for (let taxYear = Math.min(billYears[0] ?? year - 1, year - 1); taxYear <= year; taxYear++) {
+    const bill = bills.get(taxYear);
+    const amount = bill ? Math.max(bill.amount || 0, 0) : estimateFor(taxYear);
+    const daysInYear = tax.force365 ? 365 : isLeapYear(taxYear) ? 366 : 365;
+    const daysOwned = taxYear < year ? daysInYear : prorationEnd.getTime() < jan1.getTime() ? 0 : daysBetweenInclusiveUTC(jan1, prorationEnd);
+    const sellerShare = taxYear < year ? amount : (amount / daysInYear) * daysOwned;
+    const paidAmount = (marked: boolean, entered: number) => (marked ? Math.max(entered || amount / 2, 0) : 0);
+    const paid = bill ? paidAmount(bill.springPaid, bill.springPaidAmount) + paidAmount(bill.fallPaid, bill.fallPaidAmount) : 0;
+
+    // An unpaid installment is half the bill
+    const installments = [
+      installmentStatus(closingUTC, taxYear + 1, "spring", bill?.springPaid ?? false, bill ? amount / 2 : 0),
+      installmentStatus(closingUTC, taxYear + 1, "fall", bill?.fallPaid ?? false, bill ? amount / 2 : 0),
+    ];
+
+    years.push({
+      taxYear,
+      payYear: taxYear + 1,
+      amount,
+      estimated: !bill,
+      daysOwned,
+      daysInYear,
+      sellerShare,
+      paid,
+      debit: Math.max(sellerShare - paid, 0),
+      installments,
+      latePenalty: round2(installments.reduce((sum, x) => sum + x.penalty, 0)),
+    });
+  }
+
+  const current = years[years.length - 1];
+  const prior = years.slice(0, -1);
+
+  return {
+    prorationEndYMD: ymd(prorationEnd),
+    daysInYear: current.daysInYear,
+    dailyRate: current.amount / current.daysInYear,
+    daysAccrued: current.daysOwned,
+    accruedThisYear: current.sellerShare,
+    paidTotal: years.reduce((sum, y) => sum + y.paid, 0),
+    unpaidPriorYear: prior.reduce((sum, y) => sum + y.debit, 0),
+    totalDebit: years.reduce((sum, y) => sum + y.debit, 0),
+    years,
+    installments: years.find((y) => y.taxYear === mainBill.taxYear)?.installments ?? [
+      installmentStatus(closingUTC, mainBill.taxYear + 1, "spring", mainBill.springPaid, 0),
+      installmentStatus(closingUTC, mainBill.taxYear + 1, "fall", mainBill.fallPaid, 0),
+    ],
+    latePenalty: round2(years.reduce((sum, y) => sum + y.latePenalty, 0)),
+    estimate,
+  };
+}
+
+export type TaxParcelBreakdown = { parcelNumber: string; tax: TaxBreakdown };
+
+// The deal’s combined taxes across parcels: amounts add up year by year; the accrual
+// days, installment calendar and estimate are those of the first (main) parcel.
+export function combineTaxBreakdowns(parts: TaxBreakdown[]): TaxBreakdown {
+  const [first, ...rest] = parts;
+  if (rest.length === 0) return first;
+  const sum = (pick: (t: TaxBreakdown) => number) => parts.reduce((total, t) => total + pick(t), 0);
+
+  const years = new Map<number, TaxYearBreakdown>();
+  for (const y of parts.flatMap((t) => t.years)) {
+    const acc = years.get(y.taxYear);
+    years.set(
+      y.taxYear,
+      acc
+        ? {
+            ...acc,
+            amount: acc.amount + y.amount,
+            estimated: acc.estimated || y.estimated,
+            sellerShare: acc.sellerShare + y.sellerShare,
+            paid: acc.paid + y.paid,
+            debit: acc.debit + y.debit,
+            installments: [...acc.installments, ...y.installments],
+            latePenalty: round2(acc.latePenalty + y.latePenalty),
+          }
+        : y
+    );
+  }
+
+  return {
+    ...first,
+    dailyRate: sum((t) => t.dailyRate),
+    accruedThisYear: sum((t) => t.accruedThisYear),
+    paidTotal: sum((t) => t.paidTotal),
+    unpaidPriorYear: sum((t) => t.unpaidPriorYear),
+    totalDebit: sum((t) => t.totalDebit),
+    years: [...years.values()].sort((a, b) => a.taxYear - b.taxYear),
+    latePenalty: round2(sum((t) => t.latePenalty)),
+  };
+}
+
+// Detail row label for one tax year, e.g. "2025 pay 2026, less $1,825.00 paid"
+export function describeTaxYear(y: TaxYearBreakdown) {
+  if (y.daysOwned < y.daysInYear) return `${y.taxYear} pay ${y.payYear}, ${y.daysOwned} of ${y.daysInYear} days`;
+  const basis = y.paid > 0 ? `less ${toMoney(y.paid)} paid` : "unpaid";
+  return `${y.taxYear} pay ${y.payYear}, ${basis}${y.estimated ? " (estimated)" : ""}`;
+}
+
+// Detail row label for one parcel: its number, or its position when it has none
+export function describeTaxParcel(p: TaxParcelBreakdown, index: number) {
+  return `Parcel ${p.parcelNumber.trim() || index + 1}`;
+}
@@ -0,0 +1,97 @@
+import { round2, toMoney } from "./utils";
+
+// -----------------------------
+// Annual Tax Estimate (assessed value, deductions, district rate, circuit breaker)
+// -----------------------------
+
+// Circuit-breaker class: the tax bill is capped at this share of gross assessed value
+export type TaxPropertyClass = "homestead" | "residential" | "nonresidential";
+
+export const TAX_PROPERTY_CLASSES: Record<TaxPropertyClass, { label: string; capRate: number }> = {
+  homestead: { label: "Homestead", capRate: 0.01 },
+  residential: { label: "Other residential / farmland", capRate: 0.02 },
+  nonresidential: { label: "Nonresidential", capRate: 0.03 },
+};
+
+// Standard homestead: lesser of 60% or $48,000. Supplemental: 35% of what remains
+// up to $600,000, 25% above. Mortgage: lesser of $3,000 or half the assessed value.
+export const STANDARD_DEDUCTION_PCT = 0.6;
+export const STANDARD_DEDUCTION_MAX = 48_000;
+export const SUPPLEMENTAL_DEDUCTION_BREAK = 600_000;
+export const SUPPLEMENTAL_DEDUCTION_LOW = 0.35;
+export const SUPPLEMENTAL_DEDUCTION_HIGH = 0.25;
+export const MORTGAGE_DEDUCTION_MAX = 3_000;
+
+/**
+ * Inputs for estimating a year’s tax when the bill is unknown or no longer
+ * representative (homestead removed, new construction, reassessment).
+ * The homestead deductions apply only to the homestead class.
+ */
+export type TaxAssessmentInput = {
+  grossAssessedValue: number;
+  propertyClass: TaxPropertyClass;
+  standardDeduction: boolean;
+  supplementalDeduction: boolean;
+  mortgageDeduction: boolean;
+  /** Taxing-district rate in dollars per $100 of net assessed value, e.g. 2.4513. */
+  districtRatePer100: number;
+};
+
+export type TaxAssessmentEstimate = {
+  grossAssessedValue: number;
+  deductions: Array<{ label: string; amount: number }>;
+  netAssessedValue: number;
+  districtRatePer100: number;
+  /** Net assessed value times the district rate, before the cap. */
+  grossTax: number;
+  capRate: number;
+  cap: number;
+  /** The circuit breaker lowered the bill to `cap`. */
+  capped: boolean;
+  annualTax: number;
+};
+
+export function calcAssessedValueTax(input: TaxAssessmentInput): TaxAssessmentEstimate {
+  const av = round2(Math.max(input.grossAssessedValue || 0, 0));
+  const homestead = input.propertyClass === "homestead";
+  const deductions: TaxAssessmentEstimate["deductions"] = [];
+  let remaining = av;
+  const deduct = (label: string, amount: number) => {
+    const taken = round2(Math.min(Math.max(amount, 0), remaining));
+    if (taken <= 0) return;
+    deductions.push({ label, amount: taken });
+    remaining = round2(remaining - taken);
+  };
+
+  if (homestead && input.standardDeduction) deduct("Standard homestead deduction", Math.min(av * STANDARD_DEDUCTION_PCT, STANDARD_DEDUCTION_MAX));
+  if (homestead && input.supplementalDeduction) {
+    const low = Math.min(remaining, SUPPLEMENTAL_DEDUCTION_BREAK);
+    deduct("Supplemental homestead deduction", low * SUPPLEMENTAL_DEDUCTION_LOW + (remaining - low) * SUPPLEMENTAL_DEDUCTION_HIGH);
+  }
+  if (input.mortgageDeduction) deduct("Mortgage deduction", Math.min(MORTGAGE_DEDUCTION_MAX, av / 2));
+
+  const rate = Math.max(input.districtRatePer100 || 0, 0);
+  const grossTax = round2((remaining * rate) / 100);
+  const capRate = TAX_PROPERTY_CLASSES[input.propertyClass]?.capRate ?? TAX_PROPERTY_CLASSES.nonresidential.capRate;
+  const cap = round2(av * capRate);
+
+  return {
+    grossAssessedValue: av,
+    deductions,
+    netAssessedValue: remaining,
+    districtRatePer100: rate,
+    grossTax,
+    capRate,
+    cap,
+    capped: grossTax > cap,
+    annualTax: Math.min(grossTax, cap),
+  };
+}
+
+// One-line summary of the estimate for the PDF tax detail
+export function describeTaxEstimate(e: TaxAssessmentEstimate) {
+  const deducted = e.deductions.reduce((sum, d) => sum + d.amount, 0);
+  const net = deducted > 0 ? `${toMoney(e.grossAssessedValue)} AV less ${toMoney(deducted)} deductions = ${toMoney(e.netAssessedValue)}` : `${toMoney(e.netAssessedValue)} AV`;
+  const cap = `${Math.round(e.capRate * 100)}% cap ${toMoney(e.cap)}`;
+  return `${net} at $${e.districtRatePer100}/$100 = ${toMoney(e.grossTax)}; ${cap}${e.capped ? " applies" : " not reached"}.`;
+}
@@ -0,0 +1,142 @@
+import { parseCsv } from "./csv";
+import { round2, toMoney } from "./utils";
+
+// -----------------------------
+// Tax Statement Import (pasted text or a treasurer’s text / CSV export)
+// -----------------------------
+
+export type ImportedTaxInstallment = { amount: number; paid: boolean | null };
+
+/** What a tax statement yielded; fields not found are "" / 0 / null and listed in `missing`. */
+export type ImportedTaxBill = {
+  parcelNumber: string;
+  taxYear: number;
+  payYear: number;
+  annualTax: number;
+  spring: ImportedTaxInstallment | null;
+  fall: ImportedTaxInstallment | null;
+  /** Labels of optional fields that could not be found, e.g. "parcel number". */
+  missing: string[];
+  /** How a figure was derived rather than read, e.g. the annual tax from its installments. */
+  notes: string[];
+};
+
+export type TaxBillImport = { ok: true; bill: ImportedTaxBill } | { ok: false; errors: string[] };
+
+type LabeledValue = { label: string; value: string };
+
+const MONEY = /(\$?)\s*(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{2}))?/g;
+const DATE = /\b\d{1,2}\/\d{1,2}\/\d{2,4}\b|\b\d{4}-\d{2}-\d{2}\b/g;
+const STATE_PARCEL = /\b\d{2}-\d{2}-\d{2}-\d{3}-\d{3}\.\d{3}-\d{3}\b/;
+
+// "Spring Installment ..... $1,825.00 PAID" -> label + value. A CSV export is either
+// label,value rows or a header row over one data row.
+function labeledValues(text: string): LabeledValue[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/).filter((l) => l.trim());
+  const rows = lines.length > 1 && lines.every((l) => l.includes(",")) ? parseCsv(text) : null;
+
+  if (rows) {
+    if (rows.every((r) => r.filter((f) => f.trim()).length <= 2)) return rows.map(([label, value = ""]) => ({ label: label.trim(), value: value.trim() }));
+    const [header, first] = rows;
+    return header.map((label, i) => ({ label: label.trim(), value: (first[i] ?? "").trim() }));
+  }
+
+  return lines.map((line) => {
+    const m = line.match(/^\s*([^:\t]*?[A-Za-z][^:\t]*?)\s*(?::|\t|\s{2,}|\.{3,})\s*(.*)$/);
+    return m ? { label: m[1].trim(), value: m[2].trim() } : { label: line.trim(), value: "" };
+  });
+}
+
+// "05/11/2026  $1,825.00  PAID" -> 1825: dates are dropped first, and a $-prefixed or
+// two-decimal amount wins over a bare number elsewhere on the line
+function moneyIn(text: string): number | null {
+  const matches = [...text.replace(DATE, " ").matchAll(MONEY)];
+  const m = matches.find((x) => x[1] || x[3]) ?? matches[0];
+  if (!m) return null;
+  const n = Number(`${m[2].replace(/,/g, "")}.${m[3] ?? "00"}`);
+  return Number.isFinite(n) ? n : null;
+}
+
+// "PAID", "Paid 5/9/2026" -> true; "Unpaid", "Due", "Delinquent", "Balance due" -> false
+function paidIn(text: string): boolean | null {
+  if (/\b(unpaid|not\s+paid|delinquent|due|balance|owed)\b/i.test(text)) return false;
+  if (/\bpaid\b/i.test(text)) return true;
+  return null;
+}
+
+function find(pairs: LabeledValue[], label: RegExp, exclude?: RegExp) {
+  return pairs.find((p) => label.test(p.label) && !(exclude && exclude.test(p.label)));
+}
+
+function installment(pairs: LabeledValue[], name: RegExp): ImportedTaxInstallment | null {
+  const amountRow = pairs.find((p) => name.test(p.label) && !/status|paid\s*date|date/i.test(p.label) && moneyIn(p.value) !== null);
+  if (!amountRow) return null;
+  // A separate "Spring status" / "Spring paid" column (Y / N) when the amount cell says nothing
+  const statusRow = pairs.find((p) => p !== amountRow && name.test(p.label) && /status|paid/i.test(p.label));
+  let paid = paidIn(amountRow.value) ?? (statusRow ? paidIn(statusRow.value) : null);
+  if (paid === null && statusRow && /^(y|yes|true|x|n|no|false)$/i.test(statusRow.value)) paid = /^(y|yes|true|x)$/i.test(statusRow.value);
+  return { amount: moneyIn(amountRow.value) ?? 0, paid };
+}
+
+/**
+ * Reads parcel number, tax / pay year, annual tax and each installment’s amount
+ * and paid status from a county tax statement. Fails when the annual tax can be
+ * neither read nor added up from the installments, or when the installments
+ * don’t add up to it.
+ */
+export function parseTaxBill(text: string): TaxBillImport {
+  if (!text.trim()) return { ok: false, errors: ["Paste the tax statement text, or choose a .txt or .csv export from the county treasurer."] };
+  const pairs = labeledValues(text);
+  const missing: string[] = [];
+  const notes: string[] = [];
+
+  const parcelRow = find(pairs, /parcel|key\s*(no|num)|tax\s*id|duplicate\s*(no|num)/i, /district|class/i);
+  const parcelNumber = (text.match(STATE_PARCEL)?.[0] ?? parcelRow?.value.match(/[\dA-Z][\dA-Z\-.]{4,}/i)?.[0] ?? "").trim();
+  if (!parcelNumber) missing.push("parcel number");
+
+  let taxYear = 0;
+  let payYear = 0;
+  const payPhrase = text.match(/\b(20\d{2})\s*pay(?:able)?\s*(?:in\s*)?(20\d{2})\b/i);
+  if (payPhrase) {
+    taxYear = Number(payPhrase[1]);
+    payYear = Number(payPhrase[2]);
+  } else {
+    const taxYearRow = find(pairs, /(tax|assessment)\s*year/i);
+    const payYearRow = find(pairs, /pay(able)?\s*year|year\s*payable/i);
+    taxYear = Number(taxYearRow?.value.match(/\b20\d{2}\b/)?.[0] ?? 0);
+    payYear = Number(payYearRow?.value.match(/\b20\d{2}\b/)?.[0] ?? 0);
+    if (!taxYear && payYear) taxYear = payYear - 1;
+    if (taxYear && !payYear) payYear = taxYear + 1;
+  }
+  if (!taxYear) missing.push("tax year");
+
+  const spring = installment(pairs, /spring|1st\s*inst|first\s*inst|may\s*install/i);
+  const fall = installment(pairs, /fall|2nd\s*inst|second\s*inst|nov(ember)?\s*install/i);
+  if (!spring) missing.push("spring installment");
+  if (!fall) missing.push("fall installment");
+
+  const annualRow = find(pairs, /total\s*(annual\s*)?(property\s*)?tax|annual\s*tax|net\s*tax|tax\s*liability|total\s*(amount\s*)?billed/i, /due|paid|balance|penalt|prior/i);
+  let annualTax = annualRow ? moneyIn(annualRow.value) : null;
+  if (annualTax === null && spring && fall) {
+    annualTax = round2(spring.amount + fall.amount);
+    notes.push(`Annual tax ${toMoney(annualTax)} is the spring and fall installments added together.`);
+  }
+  if (annualTax === null) {
+    return {
+      ok: false,
+      errors: [
+        'Couldn’t find the annual tax. Look for a "Total tax" or "Annual tax" line, or spring and fall installment amounts, and make sure it was pasted in full.',
+      ],
+    };
+  }
+  if (spring && fall && Math.abs(spring.amount + fall.amount - annualTax) > 0.01) {
+    return {
+      ok: false,
+      errors: [
+        `Spring + fall (${toMoney(spring.amount + fall.amount)}) don’t add up to the annual tax (${toMoney(annualTax)}). Check that the installment amounts were read from the right lines, or enter them by hand.`,
+      ],
+    };
+  }
+
+  return { ok: true, bill: { parcelNumber, taxYear, payYear, annualTax, spring, fall, missing, notes } };
+}
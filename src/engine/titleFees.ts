@@ -0,0 +1,101 @@
+import { getFeeScheduleForCounty, getRecordingFeeForCounty } from "./feeSchedules";
+import { calcRecordingCharges, calcRecordingFee, recordingFeeLabel, type RecordedDocument } from "./recording";
+import { calcLenderPolicyCharges, type LenderPolicySettings, type TitleFeeItem } from "./titlePremiums";
+import { round2 } from "./utils";
+
+// -----------------------------
+// IHT Seller + Buyer Title Fees
+// -----------------------------
+
+export type TitleFeeSettings = {
+  transactionType: "with_loan" | "cash";
+  county: string;
+  // YYYY-MM-DD; picks the fee schedule and recording table versions in effect (omitted = newest)
+  closingDate?: string;
+  useSimplifile: boolean;
+  ownerPolicyPremium: number;
+  ownerPolicyReissue: boolean;
+  includeSettlementFee: boolean;
+  includeCPL: boolean;
+  includeTIEFF: boolean;
+  includeDocumentPrep: boolean;
+  // Deed, releases, affidavits… each recorded at the county’s rate
+  recordedDocuments: RecordedDocument[];
+  includeTransferFeeSDF: boolean;
+  // Set when the seller is paying the lender’s policy on a "with_loan" deal
+  lenderPolicy: LenderPolicySettings | null;
+};
+
+export function calcIhtSellerTitleFees(s: TitleFeeSettings): { items: TitleFeeItem[]; total: number } {
+  const items: TitleFeeItem[] = [];
+  const schedule = getFeeScheduleForCounty(s.county, s.closingDate);
+
+  // Owner’s policy is optional (often buyer-paid in IN)
+  if (s.ownerPolicyPremium > 0) {
+    const label = s.ownerPolicyReissue ? "Owner’s title policy (reissue rate)" : "Owner’s title policy (estimate)";
+    items.push({ label, amount: s.ownerPolicyPremium });
+  }
+  if (s.lenderPolicy && s.transactionType === "with_loan") items.push(...calcLenderPolicyCharges(s.lenderPolicy).items);
+
+  if (s.includeSettlementFee) {
+    const fullSettlement = s.transactionType === "with_loan" ? schedule.settlementWithLoanSeller : schedule.settlementCashSeller;
+    const settlement = round2(fullSettlement / 2);
+    items.push({ label: "Settlement / closing fee (seller)", amount: settlement });
+  }
+
+  items.push({ label: "Title processing fee (seller)", amount: schedule.titleProcessingSeller });
+  items.push({ label: "Closing processing fee (seller)", amount: schedule.closingProcessingSeller });
+
+  if (s.includeDocumentPrep) items.push({ label: "Document prep (attorney)", amount: schedule.docPrepSeller });
+  if (s.includeCPL) items.push({ label: "CPL (seller)", amount: schedule.cplSeller });
+  if (s.includeTIEFF) items.push({ label: "TIEFF (seller)", amount: schedule.tieffSeller });
+
+  items.push(...calcRecordingCharges(getRecordingFeeForCounty(s.county, s.closingDate), s.recordedDocuments, s.useSimplifile ? schedule.simplifilePerDoc : null));
+
+  if (s.includeTransferFeeSDF) items.push({ label: "County transfer fee + SDF", amount: schedule.transferPlusSDF });
+
+  const total = round2(items.reduce((sum, x) => sum + (x.amount || 0), 0));
+  return { items: items.map((x) => ({ ...x, amount: round2(x.amount) })), total };
+}
+
+export type BuyerTitleFeeSettings = {
+  transactionType: "with_loan" | "cash";
+  county: string;
+  closingDate?: string;
+  useSimplifile: boolean;
+  includeSettlementFee: boolean;
+  includeCPL: boolean;
+  includeTIEFF: boolean;
+  includeMortgageRecording: boolean;
+  // Pages in the recorded mortgage, for counties that charge past the first page(s)
+  mortgagePages: number;
+  // Set when the buyer is paying the lender’s policy on a "with_loan" deal
+  lenderPolicy: LenderPolicySettings | null;
+};
+
+export function calcIhtBuyerTitleFees(s: BuyerTitleFeeSettings): { items: TitleFeeItem[]; total: number } {
+  const items: TitleFeeItem[] = [];
+  const schedule = getFeeScheduleForCounty(s.county, s.closingDate);
+
+  if (s.includeSettlementFee) {
+    // Buyer pays whatever the seller's half does not cover
+    const fullSettlement = s.transactionType === "with_loan" ? schedule.settlementWithLoanSeller : schedule.settlementCashSeller;
+    const settlement = round2(fullSettlement - round2(fullSettlement / 2));
+    items.push({ label: "Settlement / closing fee (buyer)", amount: settlement });
+  }
+
+  if (s.lenderPolicy && s.transactionType === "with_loan") items.push(...calcLenderPolicyCharges(s.lenderPolicy).items);
+
+  if (s.includeCPL) items.push({ label: "CPL (buyer)", amount: schedule.cplBuyer });
+  if (s.includeTIEFF) items.push({ label: "TIEFF (buyer)", amount: schedule.tieffBuyer });
+
+  // No mortgage to record on a cash purchase
+  if (s.includeMortgageRecording && s.transactionType === "with_loan") {
+    const pages = Math.max(1, Math.ceil(s.mortgagePages || 1));
+    items.push({ label: recordingFeeLabel("mortgage", pages), amount: calcRecordingFee(getRecordingFeeForCounty(s.county, s.closingDate), pages) });
+    if (s.useSimplifile) items.push({ label: "Simplifile submission (mortgage)", amount: schedule.simplifilePerDoc });
+  }
+
+  const total = round2(items.reduce((sum, x) => sum + (x.amount || 0), 0));
+  return { items: items.map((x) => ({ ...x, amount: round2(x.amount) })), total };
+}
@@ -0,0 +1,311 @@
+import { daysBetweenInclusiveUTC, round2, ymd } from "./utils";
+
+// -----------------------------
+// Owner’s Policy Premium (from fee sheet chart)
+// -----------------------------
+
+export type OwnerPremiumChoice = "mid" | "low" | "high";
+
+export type TitleFeeItem = { label: string; amount: number };
+
+type OwnerPolicyRow = { lo: number; hi: number; min: number; max: number };
+
+const OWNER_POLICY_RANGE_CSV = `
+0,50000,209,220
+50001,60000,225,263
+60001,70000,268,306
+70001,80000,311,349
+80001,90000,353,392
+90001,100000,396,435
+100001,110000,438,462
+110001,120000,465,490
+120001,130000,493,517
+130001,140000,520,545
+140001,150000,548,572
+150001,160000,575,600
+160001,170000,603,627
+170001,180000,630,655
+180001,190000,658,682
+190001,200000,685,710
+200001,210000,713,737
+210001,220000,740,765
+220001,230000,768,792
+230001,240000,795,820
+240001,250000,823,847
+250001,260000,850,875
+260001,270000,878,902
+270001,280000,905,930
+280001,290000,933,957
+290001,300000,960,985
+300001,310000,988,1012
+310001,320000,1015,1040
+320001,330000,1043,1067
+330001,340000,1070,1095
+340001,350000,1098,1122
+350001,360000,1125,1147
+360001,370000,1150,1172
+370001,380000,1174,1197
+380001,390000,1199,1221
+390001,400000,1224,1246
+400001,410000,1249,1271
+410001,420000,1273,1296
+420001,430000,1298,1320
+430001,440000,1323,1345
+440001,450000,1348,1370
+450001,460000,1372,1395
+460001,470000,1397,1419
+470001,480000,1422,1444
+480001,490000,1447,1469
+490001,500000,1471,1494
+500001,510000,1496,1518
+510001,520000,1521,1543
+520001,530000,1546,1568
+530001,540000,1570,1593
+540001,550000,1595,1617
+550001,560000,1620,1642
+560001,570000,1645,1667
+570001,580000,1669,1692
+580001,590000,1694,1716
+590001,600000,1719,1741
+600001,610000,1743,1762
+610001,620000,1764,1783
+620001,630000,1785,1804
+630001,640000,1806,1825
+640001,650000,1827,1846
+650001,660000,1848,1868
+660001,670000,1869,1894
+670001,680000,1890,1919
+680001,690000,1911,1944
+690001,700000,1931,1969
+700001,710000,1952,1995
+710001,720000,1973,2020
+720001,730000,1994,2045
+730001,740000,2015,2071
+740001,750000,2036,2096
+750001,760000,2057,2121
+760001,770000,2078,2147
+770001,780000,2099,2172
+780001,790000,2120,2197
+790001,800000,2140,2222
+800001,810000,2161,2248
+810001,820000,2182,2273
+820001,830000,2203,2298
+830001,840000,2224,2324
+840001,850000,2245,2349
+850001,860000,2266,2374
+860001,870000,2287,2400
+870001,880000,2308,2425
+880001,890000,2329,2450
+890001,900000,2349,2475
+900001,910000,2370,2501
+910001,920000,2391,2526
+920001,930000,2412,2551
+930001,940000,2433,2577
+940001,950000,2454,2602
+950001,960000,2475,2627
+960001,970000,2496,2653
+970001,980000,2517,2678
+980001,990000,2538,2703
+990001,1000000,2558,2728
+`;
+
+const OWNER_POLICY_TABLE: OwnerPolicyRow[] = OWNER_POLICY_RANGE_CSV.trim()
+  .split("\n")
+  .map((line) => {
+    const [lo, hi, min, max] = line.split(",").map((x) => Number(x));
+    return { lo, hi, min, max };
+  });
+
+// One entry per published chart; the closing date picks the latest one in effect.
+// effectiveFrom "" = in effect for any date before the next version.
+type OwnerPremiumChart = {
+  effectiveFrom: string;
+  label: string;
+  rows: OwnerPolicyRow[];
+  // Above $1,000,000: top-row max plus a charge per started $10,000
+  per10kAbove1m: number;
+};
+
+const OWNER_PREMIUM_CHARTS: OwnerPremiumChart[] = [{ effectiveFrom: "", label: "IHT owner’s policy chart", rows: OWNER_POLICY_TABLE, per10kAbove1m: 22 }];
+
+export type OwnerPremiumChartVersion = { label: string; effectiveFrom: string };
+
+function ownerPremiumChartOn(closingYMD?: string) {
+  const inEffect = closingYMD ? OWNER_PREMIUM_CHARTS.filter((c) => c.effectiveFrom <= closingYMD) : OWNER_PREMIUM_CHARTS;
+  return inEffect.reduce<OwnerPremiumChart | null>((latest, c) => (!latest || c.effectiveFrom > latest.effectiveFrom ? c : latest), null) ?? OWNER_PREMIUM_CHARTS[0];
+}
+
+export function getOwnerPremiumChartVersion(closingYMD?: string): OwnerPremiumChartVersion {
+  const { label, effectiveFrom } = ownerPremiumChartOn(closingYMD);
+  return { label, effectiveFrom };
+}
+
+// Dated chart changes, for "rates change near closing" warnings
+export function getOwnerPremiumChartChangeDates() {
+  return OWNER_PREMIUM_CHARTS.map((c) => c.effectiveFrom).filter(Boolean);
+}
+
+export function calcOwnersPolicyPremium(liabilityAmount: number, choice: OwnerPremiumChoice = "mid", closingYMD?: string) {
+  const amt = Math.max(liabilityAmount || 0, 0);
+  const chart = ownerPremiumChartOn(closingYMD);
+  const table = chart.rows;
+
+  // Above $1,000,000: $2,728 + $22 per $10,000 (rounded up) over $1,000,000 on the current chart
+  if (amt > 1_000_000) {
+    const over = amt - 1_000_000;
+    const tenThousands = Math.ceil(over / 10_000);
+    const premium = table[table.length - 1].max + chart.per10kAbove1m * tenThousands;
+    return { min: premium, max: premium, chosen: premium, mode: "above_1m" as const };
+  }
+
+  const row = table.find((r) => amt >= r.lo && amt <= r.hi) || table[0];
+  const mid = round2((row.min + row.max) / 2);
+  const chosen = choice === "low" ? row.min : choice === "high" ? row.max : mid;
+  return { min: row.min, max: row.max, chosen: round2(chosen), mode: "table" as const };
+}
+
+// Reissue rate: prior owner’s or loan policy issued within the look-back window
+export const REISSUE_MAX_YEARS = 10;
+export const REISSUE_DISCOUNT = 0.3; // 30% off the chart rate on the previously insured portion
+
+export type OwnerReissueQuote = {
+  eligible: boolean;
+  yearsSincePrior: number | null;
+  coveredAmount: number;
+  fullPremium: number;
+  credit: number;
+  discountedPremium: number;
+};
+
+export function calcOwnersReissuePremium(opts: {
+  liabilityAmount: number;
+  choice: OwnerPremiumChoice;
+  priorPolicyAmount: number;
+  priorPolicyDate: Date | null;
+  closingUTC: Date;
+}): OwnerReissueQuote {
+  const closingYMD = ymd(opts.closingUTC);
+  const fullPremium = calcOwnersPolicyPremium(opts.liabilityAmount, opts.choice, closingYMD).chosen;
+  const prior = Math.max(opts.priorPolicyAmount || 0, 0);
+
+  const priorDate = opts.priorPolicyDate;
+  const yearsSincePrior =
+    priorDate && priorDate.getTime() <= opts.closingUTC.getTime()
+      ? (daysBetweenInclusiveUTC(priorDate, opts.closingUTC) - 1) / 365.25
+      : null;
+  const eligible = prior > 0 && yearsSincePrior !== null && yearsSincePrior <= REISSUE_MAX_YEARS;
+
+  if (!eligible) {
+    return { eligible: false, yearsSincePrior, coveredAmount: 0, fullPremium, credit: 0, discountedPremium: fullPremium };
+  }
+
+  // Discount only the part of the new policy the prior policy already insured
+  const coveredAmount = Math.min(prior, Math.max(opts.liabilityAmount || 0, 0));
+  const credit = round2(calcOwnersPolicyPremium(coveredAmount, opts.choice, closingYMD).chosen * REISSUE_DISCOUNT);
+  return {
+    eligible: true,
+    yearsSincePrior,
+    coveredAmount,
+    fullPremium,
+    credit,
+    discountedPremium: round2(fullPremium - credit),
+  };
+}
+
+// -----------------------------
+// Lender’s Policy Premium (simultaneous issue + endorsements)
+// -----------------------------
+
+const LENDER_POLICY_RANGE_CSV = `
+0,50000,167,174
+50001,100000,266,277
+100001,150000,365,380
+150001,200000,464,483
+200001,250000,563,586
+250001,300000,662,688
+300001,350000,761,791
+350001,400000,860,894
+400001,450000,958,996
+450001,500000,1057,1099
+500001,550000,1156,1202
+550001,600000,1255,1305
+600001,650000,1354,1408
+650001,700000,1453,1511
+700001,750000,1552,1614
+750001,800000,1651,1717
+800001,850000,1750,1820
+850001,900000,1849,1923
+900001,950000,1947,2025
+950001,1000000,2046,2128
+`;
+
+const LENDER_POLICY_TABLE: OwnerPolicyRow[] = LENDER_POLICY_RANGE_CSV.trim()
+  .split("\n")
+  .map((line) => {
+    const [lo, hi, min, max] = line.split(",").map((x) => Number(x));
+    return { lo, hi, min, max };
+  });
+
+// Flat charge for a lender’s policy issued together with an owner’s policy
+export const SIMULTANEOUS_ISSUE_FEE = 150;
+
+export function calcLendersPolicyPremium(loanAmount: number, choice: OwnerPremiumChoice = "mid") {
+  const amt = Math.max(loanAmount || 0, 0);
+
+  // Above $1,000,000: $2,128 + $18 per $10,000 (rounded up) over $1,000,000
+  if (amt > 1_000_000) {
+    const over = amt - 1_000_000;
+    const tenThousands = Math.ceil(over / 10_000);
+    const premium = 2128 + 18 * tenThousands;
+    return { min: premium, max: premium, chosen: premium, mode: "above_1m" as const };
+  }
+
+  const row = LENDER_POLICY_TABLE.find((r) => amt >= r.lo && amt <= r.hi) || LENDER_POLICY_TABLE[0];
+  const mid = round2((row.min + row.max) / 2);
+  const chosen = choice === "low" ? row.min : choice === "high" ? row.max : mid;
+  return { min: row.min, max: row.max, chosen: round2(chosen), mode: "table" as const };
+}
+
+export type EndorsementCode = "alta_8_1" | "alta_9" | "alta_22";
+
+// Flat charge, or a percentage of the full lender’s chart premium with a floor
+export const ENDORSEMENTS: Record<EndorsementCode, { label: string; flat?: number; pctOfLenderPremium?: number; min?: number }> = {
+  alta_8_1: { label: "ALTA 8.1 endorsement (environmental lien)", flat: 50 },
+  alta_9: { label: "ALTA 9 endorsement (restrictions, encroachments)", pctOfLenderPremium: 0.1, min: 100 },
+  alta_22: { label: "ALTA 22 endorsement (location)", flat: 50 },
+};
+
+export type LenderPolicySettings = {
+  loanAmount: number;
+  ownerLiability: number;
+  simultaneous: boolean;
+  choice: OwnerPremiumChoice;
+  endorsements: EndorsementCode[];
+};
+
+export function calcLenderPolicyCharges(s: LenderPolicySettings): { items: TitleFeeItem[]; total: number } {
+  const items: TitleFeeItem[] = [];
+  const loan = Math.max(s.loanAmount || 0, 0);
+  if (loan <= 0) return { items, total: 0 };
+
+  const fullPremium = calcLendersPolicyPremium(loan, s.choice).chosen;
+
+  if (s.simultaneous) {
+    // Only the coverage above the owner’s policy amount is charged at chart rate
+    const owner = Math.max(s.ownerLiability || 0, 0);
+    const excess = loan > owner ? Math.max(fullPremium - calcLendersPolicyPremium(owner, s.choice).chosen, 0) : 0;
+    items.push({ label: "Lender’s title policy (simultaneous issue)", amount: SIMULTANEOUS_ISSUE_FEE + excess });
+  } else {
+    items.push({ label: "Lender’s title policy", amount: fullPremium });
+  }
+
+  for (const code of s.endorsements) {
+    const e = ENDORSEMENTS[code];
+    const amount = e.flat ?? Math.max(fullPremium * (e.pctOfLenderPremium || 0), e.min || 0);
+    items.push({ label: e.label, amount });
+  }
+
+  const total = round2(items.reduce((sum, x) => sum + (x.amount || 0), 0));
+  return { items: items.map((x) => ({ ...x, amount: round2(x.amount) })), total };
+}
+
@@ -0,0 +1,90 @@
+import type { TaxSettings } from "./tax";
+import { addDaysUTC, dateFromInput, daysBetweenInclusiveUTC, formatYMD, isLeapYear, round2, toMoney, ymd } from "./utils";
+
+// -----------------------------
+// Utility Proration (municipal sewer, water, stormwater, trash)
+// -----------------------------
+
+// Unpaid municipal sewer and stormwater charges can become liens on the property,
+// so title collects every utility through closing.
+export type UtilityKind = "sewer" | "water" | "stormwater" | "trash" | "other";
+
+export const UTILITY_KINDS: Record<UtilityKind, { label: string }> = {
+  sewer: { label: "Sewer" },
+  water: { label: "Water" },
+  stormwater: { label: "Stormwater" },
+  trash: { label: "Trash" },
+  other: { label: "Utility" },
+};
+
+export type UtilityBillingCycle = "monthly" | "bimonthly" | "quarterly";
+
+export const UTILITY_BILLING_CYCLES: Record<UtilityBillingCycle, { label: string; perYear: number }> = {
+  monthly: { label: "Monthly", perYear: 12 },
+  bimonthly: { label: "Every 2 months", perYear: 6 },
+  quarterly: { label: "Quarterly", perYear: 4 },
+};
+
+/** One utility account billed in arrears; the last bill sets the daily rate. */
+export type UtilityAccount = {
+  kind: UtilityKind;
+  /** Provider for the line label; "" = the kind’s label. */
+  provider: string;
+  billingCycle: UtilityBillingCycle;
+  lastBillAmount: number;
+  /** Last day the paid bills cover, "YYYY-MM-DD"; "" = unknown (only the holdback is charged). */
+  paidThroughDate: string;
+  /** Estimated final bill withheld from the seller until the final reading (0 = none). */
+  holdback: number;
+};
+
+export type UtilityProration = {
+  label: string;
+  dailyRate: number;
+  /** Usage runs from the day after `paidThroughYMD` through `prorationEndYMD` ("" when not dated). */
+  paidThroughYMD: string;
+  prorationEndYMD: string;
+  days: number;
+  usage: number;
+  holdback: number;
+  /** Detail lines under `label` for the UI and PDF; they sum to `total`. */
+  items: Array<{ label: string; amount: number }>;
+  total: number;
+  /** A last bill without a paid-through date to prorate from. */
+  incomplete: boolean;
+};
+
+// Usage is prorated on the same day count as the taxes: through the day before closing
+// (or closing day) over the actual days in the year unless `force365`.
+export function calcUtilityProration(account: UtilityAccount, closingUTC: Date, tax: Pick<TaxSettings, "prorateThrough" | "force365">): UtilityProration {
+  const kindLabel = UTILITY_KINDS[account.kind]?.label ?? "Utility";
+  const label = account.provider.trim() ? `${kindLabel} (${account.provider.trim()})` : kindLabel;
+  const end = tax.prorateThrough === "day_before" ? addDaysUTC(closingUTC, -1) : closingUTC;
+  const daysInYear = tax.force365 ? 365 : isLeapYear(end.getUTCFullYear()) ? 366 : 365;
+  const lastBill = round2(Math.max(account.lastBillAmount || 0, 0));
+  const dailyRate = (lastBill * (UTILITY_BILLING_CYCLES[account.billingCycle]?.perYear ?? 12)) / daysInYear;
+  const paidThrough = dateFromInput(account.paidThroughDate || "");
+
+  // Paid past closing leaves nothing to prorate; the final reading settles any difference
+  const days = paidThrough ? Math.max(daysBetweenInclusiveUTC(paidThrough, end) - 1, 0) : 0;
+  const usage = round2(dailyRate * days);
+  const holdback = round2(Math.max(account.holdback || 0, 0));
+
+  const items = [
+    ...(paidThrough ? [{ label: `Usage ${formatYMD(ymd(addDaysUTC(paidThrough, 1)))} – ${formatYMD(ymd(end))}, ${days} day(s) at ${toMoney(dailyRate)}/day`, amount: usage }] : []),
+    { label: "Final bill holdback", amount: holdback },
+  ].filter((x) => x.amount > 0);
+
+  return {
+    label,
+    dailyRate,
+    paidThroughYMD: paidThrough ? ymd(paidThrough) : "",
+    prorationEndYMD: ymd(end),
+    days,
+    usage,
+    holdback,
+    items,
+    total: round2(usage + holdback),
+    incomplete: lastBill > 0 && !paidThrough,
+  };
+}
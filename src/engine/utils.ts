@@ -0,0 +1,68 @@
+// Shared number / date helpers. Dates are UTC midnight throughout so day counts
+// never shift with the viewer's time zone.
+
+export function isLeapYear(year: number) {
+  return year % 400 === 0 || (year % 4 === 0 && year % 100 !== 0);
+}
+
+export function round2(n: number) {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
+
+export function toMoney(n: number) {
+  if (!Number.isFinite(n)) return "$0.00";
+  return n.toLocaleString(undefined, { style: "currency", currency: "USD" });
+}
+
+export function dateFromInput(v: string) {
+  const [y, m, d] = v.split("-").map((x) => Number(x));
+  if (!y || !m || !d) return null;
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  return Number.isFinite(dt.getTime()) ? dt : null;
+}
+
+// Strict YYYY-MM-DD: rejects 2026-02-30, which Date.UTC would roll into March
+export function isValidYMD(v: string) {
+  const dt = /^\d{4}-\d{2}-\d{2}$/.test(v) ? dateFromInput(v) : null;
+  return !!dt && ymd(dt) === v;
+}
+
+export function todayUTC() {
+  const now = new Date();
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+}
+
+export function ymd(dt: Date) {
+  const y = dt.getUTCFullYear();
+  const m = String(dt.getUTCMonth() + 1).padStart(2, "0");
+  const d = String(dt.getUTCDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+export function addDaysUTC(dt: Date, days: number) {
+  const copy = new Date(dt.getTime());
+  copy.setUTCDate(copy.getUTCDate() + days);
+  return copy;
+}
+
+// Same day of the month `months` later, clamped to the month’s last day (Jan 31 + 1 -> Feb 28)
+export function addMonthsUTC(dt: Date, months: number) {
+  const y = dt.getUTCFullYear();
+  const m = dt.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(y, m, Math.min(dt.getUTCDate(), lastDay)));
+}
+
+export function daysBetweenInclusiveUTC(start: Date, end: Date) {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  const s = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  const e = Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate());
+  if (e < s) return 0;
+  return Math.floor((e - s) / msPerDay) + 1;
+}
+
+// "2025-09-01" -> "9/1/2025" for labels; anything else passes through
+export function formatYMD(v: string) {
+  const m = v.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return m ? `${Number(m[2])}/${Number(m[3])}/${m[1]}` : v;
+}
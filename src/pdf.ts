@@ -0,0 +1,474 @@
+import { jsPDF } from "jspdf";
+import {
+  LOAN_PROGRAMS,
+  REISSUE_DISCOUNT,
+  bestOfferIndex,
+  describeBuyerBrokerCompensation,
+  describeRateVersions,
+  describeReferralFee,
+  describeTaxEstimate,
+  describeTaxParcel,
+  describeTaxYear,
+  differingOfferLines,
+  formatYMD,
+  isItemizedCommission,
+  round2,
+  toMoney,
+  type ConcessionLimit,
+  type NetSheetResult,
+  type OfferResult,
+} from "./engine";
+
+// -----------------------------
+// PDF
+// -----------------------------
+
+const PDF_TOP = 64;
+const PDF_BOTTOM = 712; // keep clear of the footer disclaimer
+
+// Moves to a fresh page when the next block would run into the footer
+function ensureRoom(doc: jsPDF, y: number, needed = 16) {
+  if (y + needed <= PDF_BOTTOM) return y;
+  doc.addPage();
+  return PDF_TOP;
+}
+
+// Small gray note under a fee detail list; returns the next y
+function feeNote(doc: jsPDF, text: string, x: number, maxWidth: number, y: number) {
+  const lines = doc.setFontSize(9).splitTextToSize(text, maxWidth) as string[];
+  const top = ensureRoom(doc, y + 4, lines.length * 11 + 4);
+  doc.setTextColor(60);
+  doc.text(lines, x, top);
+  doc.setFontSize(10.5);
+  doc.setTextColor(0);
+  return top + lines.length * 11 + 5;
+}
+
+// Cap rows appear only once there are concessions to check against it
+function concessionLimitRows(limit: ConcessionLimit | null): Array<[string, string]> {
+  if (!limit || limit.concessions <= 0) return [];
+  return [
+    [`Max concessions, ${LOAN_PROGRAMS[limit.program].label}: ${limit.basis}`, toMoney(limit.maxAllowed)],
+    ...(limit.excess > 0 ? [["Excess over the cap (can’t be credited to the buyer)", toMoney(limit.excess)] as [string, string]] : []),
+  ];
+}
+
+// Footer disclaimer followed by the buyer-broker compensation disclosure, each wrapped to the page
+function footerLines(doc: jsPDF, paragraphs: string[], maxWidth: number) {
+  return paragraphs.flatMap((p) => doc.splitTextToSize(p, maxWidth) as string[]);
+}
+
+export function buildPdf(sheet: NetSheetResult) {
+  const doc = new jsPDF({ unit: "pt", format: "letter" });
+  const margin = 48;
+  const pageW = doc.internal.pageSize.getWidth();
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text("Indiana Home Title", margin, 64);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(12);
+  doc.text("Seller Net Sheet (Estimate)", margin, 86);
+
+  doc.setDrawColor(0);
+  doc.setLineWidth(0.75);
+  doc.line(margin, 98, pageW - margin, 98);
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.text("Deal Summary", margin, 132);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(11);
+
+  const leftX = margin;
+  const rightX = pageW - margin;
+
+  const { deal, seller } = sheet;
+
+  // A single rate the seller pays in full shows its math inline; tiers, fees and referrals get
+  // a detail section below
+  const line = (key: string) => seller.lines.find((l) => l.key === key);
+  const sides = [
+    { label: line("listing")?.label ?? "Listing agent commission", title: "Listing agent commission", paid: seller.listingCommission, detail: seller.commissionDetail.listing },
+    { label: line("buyers")?.label ?? "Buyer’s agent commission", title: "Buyer’s agent commission", paid: seller.buyersCommission, detail: seller.commissionDetail.buyers },
+  ];
+  const commissionRow = (side: (typeof sides)[number]): [string, string] => [
+    !isItemizedCommission(side.detail) && side.detail.items.length === 1 && side.paid > 0 && side.paid === side.detail.total
+      ? `${side.label} (${side.detail.items[0].label})`
+      : side.label,
+    `(${toMoney(side.paid)})`,
+  ];
+
+  const rows: Array<[string, string]> = [
+    ["Sale price", toMoney(deal.salePrice)],
+    ["Closing date", deal.closingDate],
+    ["County", deal.county || ""],
+    commissionRow(sides[0]),
+    commissionRow(sides[1]),
+    ["Total commission", `(${toMoney(seller.subtotals.commissions)})`],
+    ["Mortgage / lien payoffs", `(${toMoney(seller.mortgagePayoff)})`],
+    ["Seller concessions", `(${toMoney(seller.sellerConcessions)})`],
+    ...concessionLimitRows(seller.concessionLimit),
+    ...(seller.buyerBroker.concession > 0 ? [[line("buyers_concession")?.label ?? "", `(${toMoney(seller.buyerBroker.concession)})`] as [string, string]] : []),
+    ["Other seller-paid costs", `(${toMoney(seller.otherCostsTotal)})`],
+    ["IHT title fees (seller)", `(${toMoney(seller.titleFeesTotal)})`],
+    ["Estimated property tax proration (IN arrears)", `(${toMoney(seller.taxDebit)})`],
+  ];
+  if (seller.taxPenalty > 0) rows.push(["Delinquent tax penalties", `(${toMoney(seller.taxPenalty)})`]);
+  for (const line of seller.lines.filter((l) => l.key.startsWith("hoa_"))) {
+    rows.push([line.label, line.amount < 0 ? `(${toMoney(-line.amount)})` : toMoney(line.amount)]);
+  }
+  if (seller.utilities.length) rows.push(["Utilities through closing + holdbacks", `(${toMoney(seller.utilitiesTotal)})`]);
+
+  let y = 156;
+  for (const [k, v] of rows) {
+    y = ensureRoom(doc, y);
+    doc.text(k, leftX, y);
+    doc.text(v, rightX, y, { align: "right" });
+    y += 18;
+  }
+
+  y = ensureRoom(doc, y, 28);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.text("Estimated Net to Seller", leftX, y + 10);
+  doc.text(toMoney(seller.estimatedNet), rightX, y + 10, { align: "right" });
+
+  let tfTop = ensureRoom(doc, y + 44, 40);
+  const itemizedSides = sides.filter((side) => isItemizedCommission(side.detail));
+  if (itemizedSides.length) {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.text("Commissions (Detail)", margin, tfTop);
+    doc.setFontSize(10.5);
+
+    let cy = tfTop + 18;
+    for (const side of itemizedSides) {
+      cy = ensureRoom(doc, cy, 16 * (side.detail.items.length + 1));
+      doc.setFont("helvetica", "bold");
+      doc.text(side.title, leftX, cy);
+      doc.text(toMoney(side.detail.total), rightX, cy, { align: "right" });
+      doc.setFont("helvetica", "normal");
+      cy += 16;
+      for (const item of side.detail.items) {
+        doc.text(item.label, leftX + 14, cy);
+        doc.text(toMoney(item.amount), rightX, cy, { align: "right" });
+        cy += 16;
+      }
+      if (side.detail.referralFee > 0) cy = feeNote(doc, `${describeReferralFee(side.detail)}; it does not change the seller’s cost.`, leftX + 14, rightX - leftX - 14, cy);
+    }
+    tfTop = ensureRoom(doc, cy + 22, 40);
+  }
+
+  if (seller.liens.length) {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.text("Payoffs (Detail)", margin, tfTop);
+    doc.setFontSize(10.5);
+
+    let py = tfTop + 18;
+    for (const lien of seller.liens) {
+      py = ensureRoom(doc, py, 16 * (lien.items.length + 1));
+      doc.setFont("helvetica", "bold");
+      doc.text(lien.label, leftX, py);
+      doc.text(toMoney(lien.total), rightX, py, { align: "right" });
+      doc.setFont("helvetica", "normal");
+      py += 16;
+      for (const item of lien.items) {
+        doc.text(item.label, leftX + 14, py);
+        doc.text(toMoney(item.amount), rightX, py, { align: "right" });
+        py += 16;
+      }
+    }
+    const lumpSum = round2(seller.mortgagePayoff - seller.liens.reduce((sum, l) => sum + l.total, 0));
+    if (lumpSum > 0) {
+      py = ensureRoom(doc, py);
+      doc.text("Other payoff (not itemized)", leftX, py);
+      doc.text(toMoney(lumpSum), rightX, py, { align: "right" });
+      py += 16;
+    }
+    if (seller.liens.some((l) => l.method === "amortized")) {
+      py = feeNote(doc, "Estimated balances assume every scheduled payment before closing is made; the lender’s payoff statement governs.", leftX, rightX - leftX, py);
+    }
+    tfTop = ensureRoom(doc, py + 22, 40);
+  }
+
+  if (seller.utilities.length) {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.text("Utilities (Detail)", margin, tfTop);
+    doc.setFontSize(10.5);
+
+    let uy = tfTop + 18;
+    for (const u of seller.utilities) {
+      uy = ensureRoom(doc, uy, 16 * (u.items.length + 1));
+      doc.setFont("helvetica", "bold");
+      doc.text(u.label, leftX, uy);
+      doc.text(toMoney(u.total), rightX, uy, { align: "right" });
+      doc.setFont("helvetica", "normal");
+      uy += 16;
+      for (const item of u.items) {
+        doc.text(item.label, leftX + 14, uy);
+        doc.text(toMoney(item.amount), rightX, uy, { align: "right" });
+        uy += 16;
+      }
+    }
+    if (seller.utilities.some((u) => u.holdback > 0)) {
+      uy = feeNote(doc, "Holdbacks are estimates of the final bills; title pays each provider from them and refunds any difference after the final reading.", leftX, rightX - leftX, uy);
+    }
+    tfTop = ensureRoom(doc, uy + 22, 40);
+  }
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.text("IHT Seller Fees (Detail)", margin, tfTop);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10.5);
+
+  let tfy = tfTop + 18;
+  for (const item of seller.titleFees) {
+    tfy = ensureRoom(doc, tfy);
+    doc.text(item.label, leftX, tfy);
+    doc.text(toMoney(item.amount), rightX, tfy, { align: "right" });
+    tfy += 16;
+  }
+
+  if (sheet.ownerPolicy.reissueApplied) {
+    const r = sheet.ownerPolicy.reissue;
+    tfy = feeNote(
+      doc,
+      `Owner’s policy reissue rate: full chart premium ${toMoney(r.fullPremium)}, less ${Math.round(REISSUE_DISCOUNT * 100)}% credit on ${toMoney(r.coveredAmount)} previously insured (${toMoney(r.credit)}) = ${toMoney(r.discountedPremium)}.`,
+      leftX,
+      rightX - leftX,
+      tfy
+    );
+  }
+
+  const rates = describeRateVersions(sheet);
+  tfy = feeNote(doc, `Rates in effect on the closing date: ${rates.feeSchedule}; ${rates.ownerChart}.`, leftX, rightX - leftX, tfy);
+
+  const boxTop = ensureRoom(doc, tfy + 22, 40);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.text("Indiana Tax Proration Detail", margin, boxTop);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10.5);
+
+  const t = sheet.tax;
+  // Delinquent installments of every parcel and open year, so the detail adds up to the penalty charged
+  const penaltyRows = sheet.taxParcels.flatMap((p, i) =>
+    p.tax.years.flatMap((yr) =>
+      yr.installments
+        .filter((x) => x.delinquent)
+        .map((x): [string, string] => [
+          `${sheet.taxParcels.length > 1 ? `${describeTaxParcel(p, i)}: ` : ""}${yr.taxYear} pay ${yr.payYear} ${x.installment} installment delinquent (due ${formatYMD(x.dueYMD)}), ${Math.round(x.penaltyRate * 100)}% penalty`,
+          toMoney(x.penalty),
+        ])
+    )
+  );
+  const detailRows: Array<[string, string]> = [
+    ["Proration through", t.prorationEndYMD],
+    ["Days in year", String(t.daysInYear)],
+    ["Daily rate", toMoney(round2(t.dailyRate))],
+    ["Days accrued", String(t.daysAccrued)],
+    ...t.years.map((y): [string, string] => [describeTaxYear(y), toMoney(round2(y.debit))]),
+    ...(sheet.taxParcels.length > 1 ? sheet.taxParcels.map((p, i): [string, string] => [describeTaxParcel(p, i), toMoney(round2(p.tax.totalDebit))]) : []),
+    ["Total estimated proration", toMoney(seller.taxDebit)],
+    ...penaltyRows,
+  ];
+
+  // The per-year rows already show days in year; the estimate takes that row’s place
+  if (t.estimate) detailRows.splice(1, 1, ["Annual tax (estimated from assessed value)", toMoney(t.estimate.annualTax)]);
+
+  let yy = boxTop + 18;
+  for (const [k, v] of detailRows) {
+    yy = ensureRoom(doc, yy);
+    doc.text(k, leftX, yy);
+    doc.text(v, rightX, yy, { align: "right" });
+    yy += 16;
+  }
+  if (t.estimate) feeNote(doc, describeTaxEstimate(t.estimate), leftX, rightX - leftX, yy - 10);
+
+  doc.setFontSize(9);
+  doc.setTextColor(60);
+  const disclaimer =
+    "Estimate only. Actual prorations, premiums, recording charges, and settlement charges may differ based on county treasurer records and the final settlement statement.";
+  doc.text(footerLines(doc, [disclaimer, describeBuyerBrokerCompensation(seller.buyerBroker)], pageW - margin * 2), margin, 732);
+
+  return doc;
+}
+
+export function buildBuyerPdf(sheet: NetSheetResult) {
+  const doc = new jsPDF({ unit: "pt", format: "letter" });
+  const margin = 48;
+  const pageW = doc.internal.pageSize.getWidth();
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text("Indiana Home Title", margin, 64);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(12);
+  doc.text("Buyer Estimated Cash to Close", margin, 86);
+
+  doc.setDrawColor(0);
+  doc.setLineWidth(0.75);
+  doc.line(margin, 98, pageW - margin, 98);
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.text("Deal Summary", margin, 132);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(11);
+
+  const leftX = margin;
+  const rightX = pageW - margin;
+  const { deal } = sheet;
+  const b = sheet.buyer.cash;
+
+  const rows: Array<[string, string]> = [
+    ["Purchase price", toMoney(deal.salePrice)],
+    ["Closing date", deal.closingDate],
+    ["County", deal.county || ""],
+    ["Transaction type", deal.transactionType === "with_loan" ? "Purchase w/ loan" : "Cash"],
+    ["Loan amount", toMoney(b.loanAmount)],
+    ["Down payment", toMoney(b.downPayment)],
+    ["IHT title fees (buyer)", toMoney(b.titleFeesTotal)],
+    ["Lender items", toMoney(b.lenderItemsTotal)],
+    ["Seller concessions (credit)", `(${toMoney(b.sellerConcessionsCredit)})`],
+    ...concessionLimitRows(sheet.seller.concessionLimit),
+    ["Tax proration credit (IN arrears)", `(${toMoney(b.taxProrationCredit)})`],
+  ];
+  if (b.hoaCharges > 0) rows.push(["HOA prepaid dues / capital contribution", toMoney(b.hoaCharges)]);
+  if (b.buyerBrokerCompensation > 0) rows.push(["Buyer’s broker compensation", toMoney(b.buyerBrokerCompensation)]);
+
+  let y = 156;
+  for (const [k, v] of rows) {
+    doc.text(k, leftX, y);
+    doc.text(v, rightX, y, { align: "right" });
+    y += 18;
+  }
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.text("Estimated Cash to Close", leftX, y + 10);
+  doc.text(toMoney(b.cashToClose), rightX, y + 10, { align: "right" });
+
+  const tfTop = y + 44;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.text("IHT Buyer Fees + Lender Items (Detail)", margin, tfTop);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10.5);
+
+  const detailItems = [...sheet.buyer.titleFees, ...(deal.transactionType === "with_loan" ? sheet.buyer.lenderItems : [])];
+  let tfy = tfTop + 18;
+  for (const item of detailItems) {
+    tfy = ensureRoom(doc, tfy);
+    doc.text(item.label, leftX, tfy);
+    doc.text(toMoney(item.amount), rightX, tfy, { align: "right" });
+    tfy += 16;
+  }
+  tfy = feeNote(doc, `Rates in effect on the closing date: ${describeRateVersions(sheet).feeSchedule}.`, leftX, rightX - leftX, tfy);
+
+  const boxTop = ensureRoom(doc, tfy + 22, 40);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.text("Indiana Tax Proration Credit", margin, boxTop);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10.5);
+
+  const t = sheet.tax;
+  const detailRows: Array<[string, string]> = [
+    ["Proration through", t.prorationEndYMD],
+    ["Days accrued", String(t.daysAccrued)],
+    ...t.years.map((y): [string, string] => [describeTaxYear(y), toMoney(round2(y.debit))]),
+    ["Credit from seller", toMoney(b.taxProrationCredit)],
+  ];
+
+  let yy = boxTop + 18;
+  for (const [k, v] of detailRows) {
+    yy = ensureRoom(doc, yy);
+    doc.text(k, leftX, yy);
+    doc.text(v, rightX, yy, { align: "right" });
+    yy += 16;
+  }
+
+  doc.setFontSize(9);
+  doc.setTextColor(60);
+  const disclaimer =
+    "Estimate only. Lender charges, prepaids, escrows, and settlement charges may differ based on the buyer's Loan Estimate, county treasurer records, and the final settlement statement.";
+  doc.text(footerLines(doc, [disclaimer, describeBuyerBrokerCompensation(sheet.seller.buyerBroker)], pageW - margin * 2), margin, 732);
+
+  return doc;
+}
+
+export function buildComparisonPdf(opts: { county: string; results: OfferResult[] }) {
+  const doc = new jsPDF({ unit: "pt", format: "letter", orientation: "landscape" });
+  const margin = 40;
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text("Indiana Home Title", margin, 52);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(12);
+  doc.text(`Offer Comparison — Seller Net (Estimate) · ${opts.county} County`, margin, 72);
+
+  doc.setDrawColor(0);
+  doc.setLineWidth(0.75);
+  doc.line(margin, 82, pageW - margin, 82);
+
+  const results = opts.results;
+  const best = bestOfferIndex(results);
+  const differing = differingOfferLines(results);
+  const labelW = 190;
+  const colW = results.length ? (pageW - margin * 2 - labelW) / results.length : 0;
+  const colRight = (i: number) => margin + labelW + colW * (i + 1) - 4;
+
+  let y = 108;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(10);
+  results.forEach((r, i) => doc.text(r.label, colRight(i), y, { align: "right", maxWidth: colW - 8 }));
+  y += 18;
+
+  doc.setFontSize(9.5);
+  for (const line of results[0]?.lines ?? []) {
+    // Bold the lines that differ between offers
+    doc.setFont("helvetica", differing.has(line.key) ? "bold" : "normal");
+    doc.text(line.label, margin, y);
+    results.forEach((r, i) => {
+      const amount = r.lines.find((x) => x.key === line.key)?.amount ?? 0;
+      doc.text(amount < 0 ? `(${toMoney(-amount)})` : toMoney(amount), colRight(i), y, { align: "right" });
+    });
+    y += 16;
+  }
+
+  doc.line(margin, y - 6, pageW - margin, y - 6);
+  y += 10;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(11);
+  doc.text("Estimated net to seller", margin, y);
+  results.forEach((r, i) => doc.text(`${toMoney(r.estimatedNet)}${i === best ? " *" : ""}`, colRight(i), y, { align: "right" }));
+
+  y += 16;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  results.forEach((r, i) => {
+    if (i === best) return;
+    doc.text(`${toMoney(round2(r.estimatedNet - results[best].estimatedNet))} vs best`, colRight(i), y, { align: "right" });
+  });
+
+  doc.setFontSize(9);
+  doc.setTextColor(60);
+  const disclaimer =
+    "* Highest estimated net. Bold lines differ between offers. Estimate only; payoff, taxes and title charges are taken from the base deal and may differ on the final settlement statement.";
+  doc.text(disclaimer, margin, pageH - 36, { maxWidth: pageW - margin * 2 });
+
+  return doc;
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import { readDealRows } from "../cli/dealRows";
+import { computeNetSheet, parseCsv, toCsv } from "../src/engine";
+import { dealInput } from "./fixtures";
+
+describe("CSV", () => {
+  it("reads quoted fields, CRLF and an Excel BOM", () => {
+    expect(parseCsv('\uFEFFa,b\r\n"x, ""y""",2\r\n\r\n')).toEqual([
+      ["a", "b"],
+      ['x, "y"', "2"],
+    ]);
+  });
+
+  it("round-trips through toCsv", () => {
+    const rows = [["name", "note"], ["Smith, J", 'said "hi"\nthen left']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe("batch deal rows", () => {
+  const header = "name,sale_price,county,closing_date,mortgage_payoff,home_warranty,prior_year_tax";
+
+  it("prices a CSV row the same as the app’s defaults", () => {
+    const file = readDealRows(`${header}\nSmith,"$300,000",marion county,3/15/2026,150000,500,3650\n`, "csv");
+    if (!file.ok) throw new Error(file.error);
+    const [row] = file.rows;
+    if (!row.ok) throw new Error(row.errors.join("; "));
+
+    expect(row.row).toBe(2);
+    expect(row.input.county).toBe("Marion");
+    expect(row.input.closingDate).toBe("2026-03-15");
+    expect(computeNetSheet(row.input).seller.estimatedNet).toBe(computeNetSheet(dealInput()).seller.estimatedNet);
+  });
+
+  it("reports every problem in a row with its spreadsheet row number", () => {
+    const file = readDealRows(`${header},listing_commission,spring_paid\nok,1,Marion,2026-01-01,,,,3%,no\nbad,,Nowhere,2026-02-30,-5,,,3,maybe\n`, "csv");
+    if (!file.ok) throw new Error(file.error);
+
+    expect(file.rows[0].ok).toBe(true);
+    expect(file.rows[1]).toMatchObject({ ok: false, row: 3, name: "bad" });
+    expect(file.rows[1].ok || file.rows[1].errors.map((e) => e.message)).toEqual([
+      'county "Nowhere" is not an Indiana county',
+      'closing_date must be a valid date as YYYY-MM-DD or M/D/YYYY (got "2026-02-30")',
+      "sale_price is required",
+      'listing_commission "3" is ambiguous; write 3% for a percent or $3 for a flat amount',
+      'mortgage_payoff must be a non-negative dollar amount (got "-5")',
+      'spring_paid must be yes or no (got "maybe")',
+    ]);
+  });
+
+  it("reads JSON deals and flags unknown columns", () => {
+    const file = readDealRows(JSON.stringify([{ sale_price: 250000, county: "Lake", closing_date: "2026-06-01", spring_paid: true, notes: "x" }]), "json");
+    if (!file.ok) throw new Error(file.error);
+
+    expect(file.unknownColumns).toEqual(["notes"]);
+    expect(file.rows[0].ok && file.rows[0].input.tax.springPaid).toBe(true);
+    expect(readDealRows("{", "json")).toEqual({ ok: false, error: "File is not valid JSON." });
+  });
+
+  it("reads recorded documents as type or type:pages and the mortgage page count", () => {
+    const base = { sale_price: 250000, county: "Lake", closing_date: "2026-06-01" };
+    const file = readDealRows(JSON.stringify([{ ...base, recorded_documents: "deed:3 mortgage_release", mortgage_pages: 14 }, { ...base, recorded_documents: "deed:0, lien", mortgage_pages: "0" }]), "json");
+    if (!file.ok) throw new Error(file.error);
+
+    expect(file.rows[0].ok && file.rows[0].input.title.recordedDocuments).toEqual([
+      { type: "deed", pages: 3 },
+      { type: "mortgage_release", pages: 1 },
+    ]);
+    expect(file.rows[0].ok && file.rows[0].input.buyer.mortgagePages).toBe(14);
+    expect(file.rows[1].ok || file.rows[1].errors.map((e) => e.message)).toEqual([
+      'recorded_documents: deed needs a whole page count of 1 or more (got "0")',
+      'recorded_documents: unknown type "lien" (use deed, corrective_deed, mortgage_release, power_of_attorney, affidavit)',
+      'mortgage_pages must be a whole page count of 1 or more (got "0")',
+    ]);
+  });
+
+  it("reads other parcels as number:annual_tax:paid", () => {
+    const base = { sale_price: 250000, county: "Lake", closing_date: "2026-06-01" };
+    const file = readDealRows(JSON.stringify([{ ...base, other_parcels: "45-01-001:$1,200:spring 45-01-002:300" }, { ...base, other_parcels: "45-01-003 45-01-004:90:winter" }]), "json");
+    if (!file.ok) throw new Error(file.error);
+
+    expect(file.rows[0].ok && file.rows[0].input.taxParcels).toEqual([
+      { parcelNumber: "45-01-001", priorYearTax: 1_200, springPaid: true, springPaidAmount: 0, fallPaid: false, fallPaidAmount: 0 },
+      { parcelNumber: "45-01-002", priorYearTax: 300, springPaid: false, springPaidAmount: 0, fallPaid: false, fallPaidAmount: 0 },
+    ]);
+    expect(file.rows[1].ok || file.rows[1].errors.map((e) => e.message)).toEqual([
+      'other_parcels: "45-01-003" needs a parcel number and a non-negative annual tax, e.g. 49-01-23-456-789.000-101:1200',
+      'other_parcels: paid must be spring, fall or both (got "winter")',
+    ]);
+  });
+
+  it("reads tiered and flat-plus-percent commissions with admin fees", () => {
+    const base = { sale_price: 250000, county: "Lake", closing_date: "2026-06-01" };
+    const file = readDealRows(
+      JSON.stringify([
+        { ...base, listing_commission_tiers: "3%:100000 2.5%", listing_admin_fee: 395, buyers_commission: "$500 + 2%", buyer_broker_paid_by: "split", buyer_broker_seller_share: "40%" },
+        { ...base, listing_commission: "3%", listing_commission_tiers: "3%:100000 2.5%", buyers_commission_tiers: "3%:200000 2%:100000 1%" },
+      ]),
+      "json"
+    );
+    if (!file.ok) throw new Error(file.error);
+
+    expect(file.rows[0].ok && file.rows[0].input.listingCommission).toEqual({
+      type: "tiered",
+      pct: 3,
+      flat: 0,
+      tiers: [
+        { pct: 3, upTo: 100_000 },
+        { pct: 2.5, upTo: 0 },
+      ],
+      adminFee: 395,
+      referralPct: 0,
+    });
+    expect(file.rows[0].ok && file.rows[0].input.buyersCommission).toMatchObject({ type: "flat_plus_pct", flat: 500, pct: 2 });
+    expect(file.rows[0].ok && file.rows[0].input.buyerBroker).toEqual({ paidBy: "split", sellerSharePct: 40 });
+    expect(file.rows[1].ok || file.rows[1].errors.map((e) => e.message)).toEqual([
+      "listing_commission_tiers: leave listing_commission blank when the rate is tiered",
+      'buyers_commission_tiers: "2%:100000" needs a percent and a rising price cap (the last tier has none), e.g. 3%:100000 2.5%',
+    ]);
+  });
+
+  it("reads the loan program and concessions as a percent of the price", () => {
+    const base = { sale_price: 250000, county: "Lake", closing_date: "2026-06-01" };
+    const file = readDealRows(JSON.stringify([{ ...base, loan_program: "VA", va_allowable_costs: "$2,000", seller_concessions: "3%" }, { ...base, loan_program: "jumbo" }]), "json");
+    if (!file.ok) throw new Error(file.error);
+
+    expect(file.rows[0].ok && file.rows[0].input.loan).toEqual({ program: "va", allowableCosts: 2_000 });
+    expect(file.rows[0].ok && file.rows[0].input.sellerConcessions).toBe(7_500);
+    expect(file.rows[1].ok || file.rows[1].errors.map((e) => e.message)).toEqual(['loan_program must be one of conventional, fha, va, usda (got "jumbo")']);
+  });
+
+  it("reads liens from payoff statements or loan terms", () => {
+    const base = { sale_price: 250000, county: "Lake", closing_date: "2026-06-01" };
+    const file = readDealRows(
+      JSON.stringify([
+        { ...base, liens: "first_mortgage:$182,400:2026-05-01:21.50 heloc:amortized:50000:6.5%:120:2021-05-01:75" },
+        { ...base, liens: "tax:100 judgment heloc:amortized:50000:6.5%:ten second_mortgage:5000:05/01/2026" },
+      ]),
+      "json"
+    );
+    if (!file.ok) throw new Error(file.error);
+
+    expect(file.rows[0].ok && file.rows[0].input.liens).toMatchObject([
+      { kind: "first_mortgage", method: "statement", statementAmount: 182_400, goodThroughDate: "2026-05-01", perDiem: 21.5, releaseFee: 0 },
+      { kind: "heloc", method: "amortized", originalAmount: 50_000, ratePct: 6.5, termMonths: 120, firstPaymentDate: "2021-05-01", releaseFee: 75 },
+    ]);
+    expect(file.rows[0].ok && computeNetSheet(file.rows[0].input).seller.liens).toHaveLength(2);
+    expect(file.rows[1].ok || file.rows[1].errors.map((e) => e.message)).toEqual([
+      'liens: unknown kind "tax" (use first_mortgage, second_mortgage, heloc, judgment)',
+      'liens: "judgment" needs non-negative dollar amounts, e.g. first_mortgage:182400:2026-03-01:21.50',
+      'liens: "heloc:amortized:50000:6.5%:ten" needs an original amount, a rate and a whole term in months, e.g. first_mortgage:amortized:240000:6.5%:360:2021-05-01',
+      'liens: second_mortgage good-through date must be YYYY-MM-DD (got "05/01/2026")',
+    ]);
+  });
+
+  it("reads an optional prepayment fee after the release fee", () => {
+    const base = { sale_price: 250000, county: "Lake", closing_date: "2026-06-01" };
+    const file = readDealRows(
+      JSON.stringify([
+        { ...base, liens: "first_mortgage:182400:2026-05-01:21.50:35:1500 heloc:amortized:50000:6.5%:120:2021-05-01:75:250" },
+        { ...base, liens: "first_mortgage:182400:2026-05-01:21.50:35:-1500" },
+      ]),
+      "json"
+    );
+    if (!file.ok) throw new Error(file.error);
+
+    expect(file.rows[0].ok && file.rows[0].input.liens.map((l) => [l.kind, l.releaseFee, l.prepaymentFee])).toEqual([
+      ["first_mortgage", 35, 1_500],
+      ["heloc", 75, 250],
+    ]);
+    expect(file.rows[1].ok || file.rows[1].errors.map((e) => e.message)).toEqual([
+      'liens: "first_mortgage:182400:2026-05-01:21.50:35:-1500" needs non-negative dollar amounts, e.g. first_mortgage:182400:2026-03-01:21.50',
+    ]);
+  });
+
+  it("reads utilities as kind:cycle:last_bill:paid_through:holdback", () => {
+    const base = { sale_price: 250000, county: "Lake", closing_date: "2026-06-01" };
+    const file = readDealRows(JSON.stringify([{ ...base, utilities: "sewer:monthly:$84.50:2026-04-30:150 water:quarterly:62" }, { ...base, utilities: "gas:monthly:90 trash:weekly:20" }]), "json");
+    if (!file.ok) throw new Error(file.error);
+
+    expect(file.rows[0].ok && file.rows[0].input.utilities).toEqual([
+      { kind: "sewer", provider: "", billingCycle: "monthly", lastBillAmount: 84.5, paidThroughDate: "2026-04-30", holdback: 150 },
+      { kind: "water", provider: "", billingCycle: "quarterly", lastBillAmount: 62, paidThroughDate: "", holdback: 0 },
+    ]);
+    expect(file.rows[1].ok || file.rows[1].errors.map((e) => e.message)).toEqual([
+      'utilities: unknown kind "gas" (use sewer, water, stormwater, trash, other)',
+      'utilities: trash needs a billing cycle of monthly, bimonthly, quarterly (got "weekly")',
+    ]);
+  });
+});
@@ -0,0 +1,379 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  COUNTY_RECORDING_FEES,
+  DEFAULT_FEE_SCHEDULE_CONFIG,
+  IN_COUNTIES,
+  STANDARD_SCHEDULE,
+  VALPO_SCHEDULE,
+  SIMULTANEOUS_ISSUE_FEE,
+  calcBuyerCashToClose,
+  calcIhtBuyerTitleFees,
+  calcIndianaTaxProration,
+  calcLenderPolicyCharges,
+  calcLendersPolicyPremium,
+  calcOwnersPolicyPremium,
+  calcOwnersReissuePremium,
+  calcRecordingCharges,
+  calcRecordingFee,
+  getCountyRecordingFee,
+  calcAssessedValueTax,
+  buildFeeScheduleFile,
+  getFeeScheduleChangeDates,
+  getFeeScheduleForCounty,
+  getRecordingFeeChangeDates,
+  getRecordingFeeForCounty,
+  parseFeeScheduleConfig,
+  parseTaxBill,
+  resetFeeScheduleConfig,
+  round2,
+  setFeeScheduleConfig,
+  taxInstallmentDueDate,
+  ymd,
+  type TaxSettings,
+} from "../src/engine";
+
+const closing = new Date(Date.UTC(2026, 0, 10)); // Jan 10, 2026
+
+describe("owner’s policy premium", () => {
+  it("looks up the chart range", () => {
+    const p = calcOwnersPolicyPremium(50_000, "mid");
+    expect([p.min, p.max]).toEqual([209, 220]);
+    expect(p.chosen).toBe(round2((209 + 220) / 2));
+  });
+
+  it("adds $22 per started $10k above $1M", () => {
+    const p = calcOwnersPolicyPremium(1_000_001, "mid");
+    expect(p.mode).toBe("above_1m");
+    expect(p.chosen).toBe(2728 + 22);
+  });
+
+  it("discounts the previously insured portion within the reissue window", () => {
+    const opts = { liabilityAmount: 300_000, choice: "low" as const, priorPolicyAmount: 200_000, closingUTC: closing };
+    const reissue = calcOwnersReissuePremium({ ...opts, priorPolicyDate: new Date(Date.UTC(2020, 5, 1)) });
+    expect(reissue.eligible).toBe(true);
+    expect(reissue.fullPremium).toBe(960);
+    expect(reissue.credit).toBe(round2(685 * 0.3));
+
+    const stale = calcOwnersReissuePremium({ ...opts, priorPolicyDate: new Date(Date.UTC(2010, 5, 1)) });
+    expect(stale.eligible).toBe(false);
+    expect(stale.discountedPremium).toBe(960);
+  });
+});
+
+describe("lender’s policy", () => {
+  it("is a flat simultaneous-issue fee when the loan is within the owner’s amount", () => {
+    const simo = calcLenderPolicyCharges({ loanAmount: 240_000, ownerLiability: 300_000, simultaneous: true, choice: "mid", endorsements: [] });
+    expect(simo.total).toBe(SIMULTANEOUS_ISSUE_FEE);
+  });
+
+  it("charges the standalone rate plus the ALTA 9 minimum", () => {
+    const standalone = calcLenderPolicyCharges({ loanAmount: 240_000, ownerLiability: 0, simultaneous: false, choice: "low", endorsements: ["alta_9"] });
+    expect(standalone.items.map((x) => x.amount)).toEqual([563, 100]);
+  });
+
+  it("adds $18 per started $10k above $1M", () => {
+    expect(calcLendersPolicyPremium(1_000_001).chosen).toBe(2128 + 18);
+  });
+});
+
+describe("fee schedules", () => {
+  afterEach(resetFeeScheduleConfig);
+
+  it("switches to the Valparaiso schedule by county", () => {
+    expect(getFeeScheduleForCounty("Lake").titleProcessingSeller).toBe(225);
+    expect(getFeeScheduleForCounty("Marion").titleProcessingSeller).toBe(175);
+  });
+
+  it("splits the settlement fee so the buyer pays the other half", () => {
+    const buyerFees = calcIhtBuyerTitleFees({
+      transactionType: "with_loan",
+      county: "Marion",
+      useSimplifile: false,
+      includeSettlementFee: true,
+      includeCPL: false,
+      includeTIEFF: false,
+      includeMortgageRecording: false,
+      mortgagePages: 1,
+      lenderPolicy: null,
+    });
+    expect(buyerFees.total + round2(STANDARD_SCHEDULE.settlementWithLoanSeller / 2)).toBe(STANDARD_SCHEDULE.settlementWithLoanSeller);
+  });
+
+  it("prices with an edited configuration at runtime", () => {
+    const file = JSON.parse(JSON.stringify(buildFeeScheduleFile(DEFAULT_FEE_SCHEDULE_CONFIG)));
+    file.schedules.push({ ...STANDARD_SCHEDULE, name: "Fort Wayne", titleProcessingSeller: 200 });
+    file.counties = { allen: "Fort Wayne", Lake: "Valparaiso" };
+
+    const parsed = parseFeeScheduleConfig(file);
+    if (!parsed.ok) throw new Error(parsed.errors.join(" "));
+    expect(parsed.config.counties).toEqual({ Allen: "Fort Wayne", Lake: "Valparaiso" });
+
+    setFeeScheduleConfig(parsed.config);
+    expect(getFeeScheduleForCounty("Allen").titleProcessingSeller).toBe(200);
+    expect(getFeeScheduleForCounty("Porter").name).toBe("Standard");
+    resetFeeScheduleConfig();
+    expect(getFeeScheduleForCounty("Porter").name).toBe("Valparaiso");
+  });
+
+  it("picks the schedule version in effect on the closing date", () => {
+    setFeeScheduleConfig({
+      ...DEFAULT_FEE_SCHEDULE_CONFIG,
+      schedules: [...DEFAULT_FEE_SCHEDULE_CONFIG.schedules, { ...VALPO_SCHEDULE, effectiveFrom: "2027-01-01", titleProcessingSeller: 250 }],
+    });
+
+    // Before the first Valparaiso version the county is still on the default schedule
+    expect(getFeeScheduleForCounty("Lake", "2025-08-31").name).toBe("Standard");
+    expect(getFeeScheduleForCounty("Lake", "2025-09-01").titleProcessingSeller).toBe(225);
+    expect(getFeeScheduleForCounty("Lake", "2027-01-01").titleProcessingSeller).toBe(250);
+    expect(getFeeScheduleForCounty("Lake").titleProcessingSeller).toBe(250);
+    expect(getFeeScheduleChangeDates("Lake")).toEqual(["2025-09-01", "2027-01-01"]);
+    expect(getFeeScheduleChangeDates("Marion")).toEqual([]);
+  });
+
+  it("rejects an invalid configuration with every reason", () => {
+    const parsed = parseFeeScheduleConfig({
+      defaultSchedule: "Missing",
+      schedules: [{ ...STANDARD_SCHEDULE, cplSeller: -1 }, STANDARD_SCHEDULE],
+      counties: { Atlantis: "Standard" },
+    });
+    expect(parsed).toEqual({
+      ok: false,
+      errors: [
+        "Schedule “Standard”: cplSeller must be a non-negative number.",
+        "Schedule “Standard”: more than one version is effective from the start.",
+        "defaultSchedule “Missing” is not one of the schedules.",
+        "counties: “Atlantis” is not an Indiana county.",
+      ],
+    });
+    expect(parseFeeScheduleConfig({ schema: "iht-net-sheet/fee-schedules", version: 5 })).toMatchObject({ ok: false });
+  });
+
+  it("prices recording from the table in effect on the closing date", () => {
+    const file = JSON.parse(JSON.stringify(buildFeeScheduleFile(DEFAULT_FEE_SCHEDULE_CONFIG)));
+    file.recordingFees.push({ effectiveFrom: "2027-01-01", counties: { ...file.recordingFees[0].counties, allen: { perDocument: 30, includedPages: 2, perAdditionalPage: 5 } } });
+
+    const parsed = parseFeeScheduleConfig(file);
+    if (!parsed.ok) throw new Error(parsed.errors.join(" "));
+    setFeeScheduleConfig(parsed.config);
+    expect(getRecordingFeeForCounty("Allen", "2026-12-31")).toEqual({ perDocument: 25, includedPages: 1, perAdditionalPage: 0 });
+    expect(getRecordingFeeForCounty("Allen", "2027-01-01")).toEqual({ perDocument: 30, includedPages: 2, perAdditionalPage: 5 });
+    expect(getRecordingFeeChangeDates("Allen")).toEqual(["2027-01-01"]);
+    expect(getRecordingFeeChangeDates("Marion")).toEqual([]);
+  });
+
+  it("prices the buyer’s mortgage by its page count", () => {
+    setFeeScheduleConfig({ ...DEFAULT_FEE_SCHEDULE_CONFIG, recordingFees: [{ effectiveFrom: "", counties: { Allen: { perDocument: 20, includedPages: 2, perAdditionalPage: 5 } } }] });
+    const fees = calcIhtBuyerTitleFees({
+      transactionType: "with_loan",
+      county: "Allen",
+      useSimplifile: false,
+      includeSettlementFee: false,
+      includeCPL: false,
+      includeTIEFF: false,
+      includeMortgageRecording: true,
+      mortgagePages: 12,
+      lenderPolicy: null,
+    });
+    expect(fees.items).toEqual([{ label: "Recording fee: mortgage (12 pages)", amount: 70 }]);
+  });
+
+  it("reads older files’ Marion / other recording fees into recording tables", () => {
+    const legacy = (s: typeof STANDARD_SCHEDULE, marion: number, other: number) => ({ ...s, deedRecordingMarion: marion, deedRecordingOther: other, mortgageRecordingMarion: marion, mortgageRecordingOther: other });
+    const parsed = parseFeeScheduleConfig({
+      schema: "iht-net-sheet/fee-schedules",
+      version: 2,
+      defaultSchedule: "Standard",
+      schedules: [legacy(STANDARD_SCHEDULE, 40, 30), legacy(VALPO_SCHEDULE, 40, 28)],
+      counties: { Lake: "Valparaiso" },
+    });
+    if (!parsed.ok) throw new Error(parsed.errors.join(" "));
+    setFeeScheduleConfig(parsed.config);
+
+    expect(parsed.config.recordingFees.map((t) => t.effectiveFrom)).toEqual(["", "2025-09-01"]);
+    expect(getRecordingFeeForCounty("Marion").perDocument).toBe(40);
+    expect(getRecordingFeeForCounty("Allen").perDocument).toBe(30);
+    expect(getRecordingFeeForCounty("Lake", "2025-08-31").perDocument).toBe(30);
+    expect(getRecordingFeeForCounty("Lake", "2025-09-01").perDocument).toBe(28);
+
+    // v3 files had no recording fees; they get the built-in table
+    const v3 = parseFeeScheduleConfig({ ...buildFeeScheduleFile(DEFAULT_FEE_SCHEDULE_CONFIG), version: 3, recordingFees: undefined });
+    expect(v3.ok && v3.config.recordingFees).toEqual(DEFAULT_FEE_SCHEDULE_CONFIG.recordingFees);
+  });
+
+  it("rejects invalid recording tables", () => {
+    const parsed = parseFeeScheduleConfig({
+      ...DEFAULT_FEE_SCHEDULE_CONFIG,
+      recordingFees: [
+        { effectiveFrom: "", counties: { Marion: { perDocument: 35, includedPages: 0, perAdditionalPage: 0 }, Atlantis: { perDocument: 1, includedPages: 1, perAdditionalPage: 0 } } },
+        { effectiveFrom: "", counties: {} },
+      ],
+    });
+    expect(parsed).toEqual({
+      ok: false,
+      errors: [
+        "Recording fees 1: Marion needs a non-negative perDocument and perAdditionalPage and a whole includedPages of 1 or more.",
+        "Recording fees 1: “Atlantis” is not an Indiana county.",
+        "Recording fees 2: more than one table is effective from the start.",
+      ],
+    });
+  });
+});
+
+describe("recording fees", () => {
+  it("has a rate for every county", () => {
+    expect(Object.keys(COUNTY_RECORDING_FEES)).toEqual([...IN_COUNTIES]);
+    expect(calcRecordingFee(getCountyRecordingFee("marion"), 4)).toBe(35);
+    expect(calcRecordingFee(getCountyRecordingFee("Allen"), 4)).toBe(25);
+  });
+
+  it("charges pages past the included count", () => {
+    const fee = getCountyRecordingFee("Allen", { Allen: { perDocument: 20, includedPages: 2, perAdditionalPage: 5 } });
+    expect(calcRecordingFee(fee, 1)).toBe(20);
+    expect(calcRecordingFee(fee, 5)).toBe(35);
+  });
+
+  it("itemizes each document with its own Simplifile charge", () => {
+    const docs = [
+      { type: "deed" as const, pages: 2 },
+      { type: "mortgage_release" as const, pages: 1 },
+    ];
+    expect(calcRecordingCharges(getCountyRecordingFee("Marion"), docs, 4.25)).toEqual([
+      { label: "Recording fee: deed (2 pages)", amount: 35 },
+      { label: "Simplifile submission (deed)", amount: 4.25 },
+      { label: "Recording fee: mortgage release (1 page)", amount: 35 },
+      { label: "Simplifile submission (mortgage release)", amount: 4.25 },
+    ]);
+    expect(calcRecordingCharges(getCountyRecordingFee("Marion"), docs, null)).toHaveLength(2);
+  });
+});
+
+describe("Indiana tax proration", () => {
+  const unpaid: TaxSettings = {
+    basis: "bill",
+    parcelNumber: "",
+    priorYearTax: 3650,
+    assessment: { grossAssessedValue: 0, propertyClass: "homestead", standardDeduction: true, supplementalDeduction: true, mortgageDeduction: false, districtRatePer100: 0 },
+    taxYear: 0,
+    springPaid: false,
+    springPaidAmount: 0,
+    fallPaid: false,
+    fallPaidAmount: 0,
+    otherYears: [],
+    prorateThrough: "day_before",
+    force365: true,
+  };
+
+  it("accrues through the day before closing plus the unpaid prior year", () => {
+    const t = calcIndianaTaxProration(closing, unpaid);
+    expect(t.prorationEndYMD).toBe("2026-01-09");
+    expect(t.daysAccrued).toBe(9);
+    expect(t.totalDebit).toBeCloseTo(3650 + 90, 9);
+  });
+
+  it("estimates the annual tax from assessed value, deductions, district rate and the cap", () => {
+    const base = { grossAssessedValue: 250_000, propertyClass: "homestead" as const, standardDeduction: true, supplementalDeduction: true, mortgageDeduction: false, districtRatePer100: 2.5 };
+    // 250,000 - 48,000 standard - 35% supplemental (70,700) = 131,300 net; $3,282.50 > 1% cap
+    const home = calcAssessedValueTax(base);
+    expect(home.deductions.map((d) => d.amount)).toEqual([48_000, 70_700]);
+    expect(home.netAssessedValue).toBe(131_300);
+    expect(home.grossTax).toBe(3_282.5);
+    expect(home).toMatchObject({ cap: 2_500, capped: true, annualTax: 2_500 });
+
+    // Homestead deductions don’t apply to a rental; the 2% cap isn’t reached
+    const rental = calcAssessedValueTax({ ...base, propertyClass: "residential", mortgageDeduction: true, districtRatePer100: 2 });
+    expect(rental.deductions).toEqual([{ label: "Mortgage deduction", amount: 3_000 }]);
+    expect(rental).toMatchObject({ grossTax: 4_940, cap: 5_000, capped: false, annualTax: 4_940 });
+
+    // Supplemental drops to 25% above $600,000 of remaining value
+    expect(calcAssessedValueTax({ ...base, grossAssessedValue: 1_000_000 }).netAssessedValue).toBe(1_000_000 - 48_000 - 210_000 - 88_000);
+  });
+
+  it("moves a weekend due date to the next business day", () => {
+    expect(ymd(taxInstallmentDueDate(2026, "spring"))).toBe("2026-05-11"); // Sunday the 10th
+    expect(ymd(taxInstallmentDueDate(2025, "spring"))).toBe("2025-05-12"); // Saturday the 10th
+    expect(ymd(taxInstallmentDueDate(2026, "fall"))).toBe("2026-11-10");
+  });
+
+  it("reduces the debit by paid installments", () => {
+    const paid = calcIndianaTaxProration(closing, { ...unpaid, springPaid: true, springPaidAmount: 1000 });
+    expect(paid.totalDebit).toBeCloseTo(calcIndianaTaxProration(closing, unpaid).totalDebit - 1000, 9);
+  });
+
+  it("reads a pasted tax statement", () => {
+    const pasted = [
+      "Porter County Treasurer",
+      "Parcel Number: 64-09-21-401-012.000-023",
+      "Tax Year: 2025 Pay 2026",
+      "Total Tax ........ $3,650.00",
+      "Spring Installment\t$1,825.00\tPAID 05/08/2026",
+      "Fall Installment   $1,825.00   Unpaid",
+      "Total Due: $1,825.00",
+    ].join("\n");
+    const result = parseTaxBill(pasted);
+    expect(result.ok && result.bill).toEqual({
+      parcelNumber: "64-09-21-401-012.000-023",
+      taxYear: 2025,
+      payYear: 2026,
+      annualTax: 3650,
+      spring: { amount: 1825, paid: true },
+      fall: { amount: 1825, paid: false },
+      missing: [],
+      notes: [],
+    });
+  });
+
+  it("reads installment amounts past the due dates on a county bill", () => {
+    const pasted = [
+      "Parcel Number: 64-09-21-401-012.000-023",
+      "Tax Year: 2025 Pay 2026",
+      "Total Tax: $3,650.00",
+      "Spring Installment: 05/11/2026  $1,825.00  PAID",
+      "Fall Installment: 11/10/2026  1,825.00  Unpaid",
+    ].join("\n");
+    const result = parseTaxBill(pasted);
+    expect(result.ok && result.bill.spring).toEqual({ amount: 1825, paid: true });
+    expect(result.ok && result.bill.fall).toEqual({ amount: 1825, paid: false });
+
+    const mismatched = parseTaxBill(pasted.replace("Total Tax: $3,650.00", "Total Tax: $3,600.00"));
+    expect(mismatched.ok || mismatched.errors[0]).toMatch(/don’t add up to the annual tax/);
+  });
+
+  it("reads a CSV export and adds up the annual tax from its installments", () => {
+    const csv = "Parcel ID,Pay Year,Spring Amount,Spring Status,Fall Amount,Fall Status\n45-07-12-100-001.000-004,2026,\"1,210.50\",Paid,\"1,210.50\",Due\n";
+    const result = parseTaxBill(csv);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.bill).toMatchObject({ parcelNumber: "45-07-12-100-001.000-004", taxYear: 2025, payYear: 2026, annualTax: 2421 });
+    expect(result.bill.spring).toEqual({ amount: 1210.5, paid: true });
+    expect(result.bill.fall).toEqual({ amount: 1210.5, paid: false });
+    expect(result.bill.notes[0]).toMatch(/spring and fall installments added together/);
+  });
+
+  it("explains what is missing from a statement it can’t use", () => {
+    expect(parseTaxBill("  ")).toEqual({ ok: false, errors: [expect.stringMatching(/Paste the tax statement/)] });
+    const partial = parseTaxBill("Parcel Number: 64-09-21-401-012.000-023\nTax Year: 2025 Pay 2026");
+    expect(partial.ok).toBe(false);
+    if (!partial.ok) expect(partial.errors[0]).toMatch(/Couldn’t find the annual tax/);
+
+    const noParcel = parseTaxBill("Annual tax: 2,400");
+    expect(noParcel.ok && noParcel.bill.missing).toEqual(["parcel number", "tax year", "spring installment", "fall installment"]);
+  });
+});
+
+describe("buyer cash to close", () => {
+  it("charges a cash buyer the full price less credits, ignoring lender items", () => {
+    const cash = calcBuyerCashToClose({
+      salePrice: 200_000,
+      transactionType: "cash",
+      downPayment: 10_000,
+      titleFeesTotal: 200,
+      lenderItemsTotal: 5_000,
+      sellerConcessions: 1_000,
+      taxProrationCredit: 500,
+      hoaCharges: 0,
+      buyerBrokerCompensation: 0,
+    });
+    expect(cash.loanAmount).toBe(0);
+    expect(cash.cashToClose).toBe(200_000 + 200 - 1_000 - 500);
+  });
+});
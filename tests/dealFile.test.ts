@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from "vitest";
+import { buildDealFile, decodeShareLink, encodeShareLink, encryptDealFile, newOffer, parseDealFile, toNetSheetInput, withDealDefaults } from "../src/App";
+import { computeNetSheet } from "../src/engine";
+
+function dealFile() {
+  const inputs = withDealDefaults({ salePriceInput: "412500", county: "St. Joseph" });
+  const sheet = computeNetSheet(toNetSheetInput(inputs));
+  return buildDealFile("Test", inputs, {
+    mode: "seller",
+    titleFees: { items: sheet.seller.titleFees, total: sheet.seller.titleFeesTotal },
+    tax: sheet.tax,
+    estimatedNet: sheet.seller.estimatedNet,
+    buyer: sheet.buyer.cash,
+  });
+}
+
+describe("deal files", () => {
+  it("round-trips a plain file and rejects foreign JSON", async () => {
+    const plain = await parseDealFile(JSON.stringify(dealFile()), "");
+    expect(plain.ok && plain.inputs.county).toBe("St. Joseph");
+
+    const foreign = await parseDealFile(JSON.stringify({ hello: "world" }), "");
+    expect(foreign.ok || foreign.error).toContain("not a net sheet");
+  });
+
+  it("round-trips an encrypted file and rejects the wrong passphrase", async () => {
+    const enc = JSON.stringify(await encryptDealFile(dealFile(), "correct horse"));
+
+    const wrong = await parseDealFile(enc, "battery staple");
+    expect(wrong.ok || wrong.error).toMatch(/^Wrong passphrase/);
+    const right = await parseDealFile(enc, "correct horse");
+    expect(right.ok && right.inputs.salePriceInput).toBe("412500");
+  });
+
+  it("gives offers saved with a plain buyer’s commission the deal’s listing structure", async () => {
+    const file = dealFile();
+    const current = { ...newOffer(file.inputs, "standard", "Offer A"), buyersCommissionType: "flat", buyersCommissionFlat: "4,000" };
+    const dropped = ["buyersCommissionTiers", "buyersAdminFeeInput", "buyersReferralPctInput"];
+    const legacy = Object.fromEntries(Object.entries(current).filter(([k]) => !k.startsWith("listing") && !dropped.includes(k)));
+    const parsed = await parseDealFile(JSON.stringify({ ...file, inputs: { ...file.inputs, listingCommissionPct: "5", offers: [legacy] } }), "");
+    const offer = parsed.ok ? parsed.inputs.offers[0] : undefined;
+
+    expect(offer?.listingCommissionPct).toBe("5");
+    expect(offer?.buyersCommissionType).toBe("flat");
+    expect(offer?.buyersCommissionTiers).toEqual([]);
+  });
+
+  it("rejects a key derivation iteration count the app doesn’t write", async () => {
+    const enc = await encryptDealFile(dealFile(), "correct horse");
+    const crafted = await parseDealFile(JSON.stringify({ ...enc, kdf: { ...enc.kdf, iterations: 1e12 } }), "correct horse");
+
+    expect(crafted.ok || crafted.error).toMatch(/^This encrypted deal file is damaged/);
+  });
+});
+
+describe("share links", () => {
+  it("round-trips a deal with offers", () => {
+    const inputs = withDealDefaults({ salePriceInput: "412,500", listingCommissionType: "tiered", listingCommissionTiers: [{ id: "t1", upToInput: "", pctInput: "5" }] });
+    const offer = newOffer(inputs, "standard", "Offer A");
+    const decoded = decodeShareLink(encodeShareLink({ ...inputs, offers: [offer] }));
+
+    expect(decoded?.ok && decoded.inputs.offers[0]).toMatchObject({ label: "Offer A", listingCommissionType: "tiered", listingCommissionTiers: [{ upToInput: "", pctInput: "5" }] });
+  });
+
+  it("keeps the default closing date when the link is opened on another day", () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date(2026, 0, 5));
+      const link = encodeShareLink(withDealDefaults({ salePriceInput: "300,000" }));
+      vi.setSystemTime(new Date(2026, 2, 20));
+      const decoded = decodeShareLink(link);
+
+      expect(decoded?.ok && decoded.inputs.closingInput).toBe("2026-01-15");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("reads offer rows from a version 1 link", () => {
+    const v1 = {
+      listingCommissionPct: "5",
+      offers: [["Offer A", "standard", "300,000", "0", "2026-07-01", "cash", "flat", "3", "4,000", "500", "0", "0"]],
+    };
+    const decoded = decodeShareLink(`#deal=1.${Buffer.from(JSON.stringify(v1)).toString("base64url")}`);
+
+    expect(decoded?.ok && decoded.inputs.offers).toHaveLength(1);
+    expect(decoded?.ok && decoded.inputs.offers[0]).toMatchObject({
+      label: "Offer A",
+      transactionType: "cash",
+      buyersCommissionType: "flat",
+      buyersCommissionFlat: "4,000",
+      homeWarrantyInput: "500",
+      listingCommissionPct: "5",
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import type { Lien, NetSheetInput } from "../src/engine";
+
+// A typical Marion County financed sale; tests override only what they exercise.
+export function dealInput(overrides: Partial<NetSheetInput> = {}): NetSheetInput {
+  const base: NetSheetInput = {
+    salePrice: 300_000,
+    closingDate: "2026-03-15",
+    county: "Marion",
+    transactionType: "with_loan",
+    loan: { program: "conventional", allowableCosts: 0 },
+    listingCommission: { type: "pct", pct: 3, flat: 0, tiers: [], adminFee: 0, referralPct: 0 },
+    buyersCommission: { type: "pct", pct: 3, flat: 0, tiers: [], adminFee: 0, referralPct: 0 },
+    dualAgency: false,
+    buyerBroker: { paidBy: "seller", sellerSharePct: 0 },
+    mortgagePayoff: 150_000,
+    liens: [],
+    sellerConcessions: 0,
+    otherCosts: [{ label: "Home warranty", amount: 500 }],
+    title: {
+      useSimplifile: true,
+      autoOwnerPolicy: true,
+      ownerPolicyChoice: "mid",
+      ownerPolicyPremium: 0,
+      applyReissue: false,
+      priorPolicyAmount: 0,
+      priorPolicyDate: "",
+      includeSettlementFee: true,
+      includeDocumentPrep: true,
+      includeCPL: true,
+      includeTIEFF: true,
+      recordedDocuments: [],
+      includeTransferFeeSDF: false,
+      lendersPolicyPaidBy: "buyer",
+      endorsements: ["alta_8_1", "alta_9"],
+    },
+    tax: {
+      basis: "bill",
+      parcelNumber: "",
+      priorYearTax: 3650,
+      assessment: { grossAssessedValue: 0, propertyClass: "homestead", standardDeduction: true, supplementalDeduction: true, mortgageDeduction: false, districtRatePer100: 0 },
+      taxYear: 0,
+      springPaid: false,
+      springPaidAmount: 0,
+      fallPaid: false,
+      fallPaidAmount: 0,
+      otherYears: [],
+      prorateThrough: "day_before",
+      force365: false,
+    },
+    taxParcels: [],
+    hoa: {
+      duesAmount: 0,
+      duesPeriod: "monthly",
+      paidThroughDate: "",
+      transferFee: 0,
+      resaleCertificateFee: 0,
+      capitalContribution: 0,
+      capitalContributionPaidBy: "buyer",
+      specialAssessments: [],
+    },
+    utilities: [],
+    buyer: {
+      downPayment: { type: "pct", pct: 20, flat: 0 },
+      lenderItems: [],
+      includeSettlementFee: true,
+      includeCPL: true,
+      includeTIEFF: true,
+      includeMortgageRecording: true,
+      mortgagePages: 1,
+    },
+  };
+  return { ...base, ...overrides };
+}
+
+// A payoff-statement first mortgage with every other field zeroed
+export function lienInput(overrides: Partial<Lien> = {}): Lien {
+  return {
+    kind: "first_mortgage",
+    holder: "",
+    method: "statement",
+    statementAmount: 0,
+    goodThroughDate: "",
+    perDiem: 0,
+    originalAmount: 0,
+    ratePct: 0,
+    termMonths: 0,
+    firstPaymentDate: "",
+    releaseFee: 0,
+    prepaymentFee: 0,
+    ...overrides,
+  };
+}
@@ -0,0 +1,597 @@
+import { describe, expect, it } from "vitest";
+import { computeNetSheet, describeTaxYear, round2 } from "../src/engine";
+import { buildBuyerPdf, buildPdf } from "../src/pdf";
+import { dealInput, lienInput } from "./fixtures";
+
+describe("computeNetSheet — seller", () => {
+  it("prices a standard Marion County financed sale", () => {
+    const r = computeNetSheet(dealInput());
+
+    expect(r.deal).toEqual({ salePrice: 300_000, closingDate: "2026-03-15", county: "Marion", transactionType: "with_loan", feeSchedule: "Standard", feeScheduleEffectiveFrom: "" });
+    expect(r.ownerPolicy.chartVersion).toEqual({ label: "IHT owner’s policy chart", effectiveFrom: "" });
+    expect(r.seller.listingCommission).toBe(9_000);
+    expect(r.seller.buyersCommission).toBe(9_000);
+    expect(r.ownerPolicy.premium).toBe(972.5);
+    expect(r.seller.titleFees).toEqual([
+      { label: "Owner’s title policy (estimate)", amount: 972.5 },
+      { label: "Settlement / closing fee (seller)", amount: 195 },
+      { label: "Title processing fee (seller)", amount: 175 },
+      { label: "Closing processing fee (seller)", amount: 150 },
+      { label: "Document prep (attorney)", amount: 125 },
+      { label: "CPL (seller)", amount: 25 },
+      { label: "TIEFF (seller)", amount: 5 },
+    ]);
+    expect(r.seller.titleFeesTotal).toBe(1_647.5);
+
+    // Jan 1 – Mar 14 = 73 days at $10/day, plus the whole unpaid prior-year bill
+    expect(r.tax.daysAccrued).toBe(73);
+    expect(r.tax.accruedThisYear).toBeCloseTo(730, 9);
+    expect(r.seller.taxDebit).toBe(4_380);
+
+    expect(r.seller.estimatedNet).toBe(125_472.5);
+    expect(r.warnings).toEqual([]);
+  });
+
+  it("returns signed lines and subtotals that add up to the net", () => {
+    const r = computeNetSheet(dealInput({ sellerConcessions: 3_000 }));
+    const sum = r.seller.lines.reduce((a, l) => a + l.amount, 0);
+
+    expect(r.seller.lines.map((l) => l.key)).toEqual(["price", "listing", "buyers", "payoff", "concessions", "other", "title", "tax", "tax_penalty"]);
+    expect(sum).toBeCloseTo(r.seller.estimatedNet, 9);
+    expect(r.seller.subtotals).toEqual({ commissions: 18_000, closingCosts: 3_000 + 500 + 1_647.5, totalDeductions: 300_000 - r.seller.estimatedNet });
+  });
+
+  it("prices a Valparaiso-schedule cash sale with reissue, recording and transfer fees", () => {
+    const r = computeNetSheet(
+      dealInput({
+        salePrice: 200_000,
+        closingDate: "2026-07-01",
+        county: "Lake",
+        transactionType: "cash",
+        listingCommission: { type: "flat", pct: 0, flat: 5_000, tiers: [], adminFee: 0, referralPct: 0 },
+        buyersCommission: { type: "flat", pct: 0, flat: 4_000, tiers: [], adminFee: 0, referralPct: 0 },
+        mortgagePayoff: 0,
+        sellerConcessions: 2_000,
+        otherCosts: [],
+        title: {
+          ...dealInput().title,
+          applyReissue: true,
+          priorPolicyAmount: 150_000,
+          priorPolicyDate: "2020-06-01",
+          recordedDocuments: [
+            { type: "deed", pages: 3 },
+            { type: "affidavit", pages: 1 },
+          ],
+          includeTransferFeeSDF: true,
+        },
+        tax: { ...dealInput().tax, priorYearTax: 2_000, taxYear: 0, springPaid: true, springPaidAmount: 0, fallPaid: false, fallPaidAmount: 0, otherYears: [], prorateThrough: "closing_date", force365: true },
+      })
+    );
+
+    expect(r.deal.feeSchedule).toBe("Valparaiso");
+    // Chart mid $697.50 less 30% of the $560 premium on the $150k previously insured
+    expect(r.ownerPolicy.reissueApplied).toBe(true);
+    expect(r.ownerPolicy.premium).toBe(529.5);
+    expect(r.seller.titleFees.map((x) => x.label)).toEqual([
+      "Owner’s title policy (reissue rate)",
+      "Settlement / closing fee (seller)",
+      "Title processing fee (seller)",
+      "Closing processing fee (seller)",
+      "Document prep (attorney)",
+      "CPL (seller)",
+      "TIEFF (seller)",
+      "Recording fee: deed (3 pages)",
+      "Simplifile submission (deed)",
+      "Recording fee: affidavit (1 page)",
+      "Simplifile submission (affidavit)",
+      "County transfer fee + SDF",
+    ]);
+    expect(r.seller.titleFeesTotal).toBe(1_318);
+
+    // Spring paid with no amount = half the bill; 182 days through the closing date
+    expect(r.tax.paidTotal).toBe(1_000);
+    expect(r.tax.daysAccrued).toBe(182);
+    expect(r.seller.taxDebit).toBe(1_997.26);
+    expect(r.seller.estimatedNet).toBe(185_684.74);
+  });
+
+  it("uses a typed-in owner’s premium and bills a seller-paid lender’s policy", () => {
+    const r = computeNetSheet(
+      dealInput({ title: { ...dealInput().title, autoOwnerPolicy: false, ownerPolicyPremium: 0, lendersPolicyPaidBy: "seller", endorsements: [] } })
+    );
+
+    // No owner’s policy written, so the lender’s policy is a standalone chart rate on the $240k loan
+    expect(r.lenderPolicy).toEqual({
+      loanAmount: 240_000,
+      simultaneous: false,
+      paidBy: "seller",
+      items: [{ label: "Lender’s title policy", amount: 574.5 }],
+      total: 574.5,
+    });
+    expect(r.seller.titleFees[0]).toEqual({ label: "Lender’s title policy", amount: 574.5 });
+    expect(r.buyer.titleFees.some((x) => x.label.startsWith("Lender’s"))).toBe(false);
+  });
+});
+
+describe("computeNetSheet — buyer", () => {
+  it("prices the buyer’s cash to close on the same deal", () => {
+    const r = computeNetSheet(dealInput({ buyer: { ...dealInput().buyer, lenderItems: [{ label: "Appraisal", amount: 550 }] } }));
+
+    expect(r.buyer.titleFees).toEqual([
+      { label: "Settlement / closing fee (buyer)", amount: 195 },
+      { label: "Lender’s title policy (simultaneous issue)", amount: 150 },
+      { label: "ALTA 8.1 endorsement (environmental lien)", amount: 50 },
+      { label: "ALTA 9 endorsement (restrictions, encroachments)", amount: 100 },
+      { label: "CPL (buyer)", amount: 25 },
+      { label: "TIEFF (buyer)", amount: 5 },
+      { label: "Recording fee: mortgage (1 page)", amount: 35 },
+      { label: "Simplifile submission (mortgage)", amount: 4.25 },
+    ]);
+    expect(r.buyer.cash).toEqual({
+      loanAmount: 240_000,
+      downPayment: 60_000,
+      titleFeesTotal: 564.25,
+      lenderItemsTotal: 550,
+      sellerConcessionsCredit: 0,
+      taxProrationCredit: 4_380,
+      hoaCharges: 0,
+      buyerBrokerCompensation: 0,
+      cashToClose: 60_000 + 564.25 + 550 - 4_380,
+    });
+  });
+
+  it("ignores the loan on a cash purchase", () => {
+    const r = computeNetSheet(dealInput({ transactionType: "cash", buyer: { ...dealInput().buyer, lenderItems: [{ label: "Appraisal", amount: 550 }] } }));
+
+    expect(r.lenderPolicy.items).toEqual([]);
+    expect(r.buyer.cash.loanAmount).toBe(0);
+    expect(r.buyer.cash.lenderItemsTotal).toBe(0);
+    expect(r.buyer.cash.cashToClose).toBe(300_000 + 290 - 145 + 25 + 5 - 4_380);
+  });
+});
+
+describe("computeNetSheet — liens", () => {
+  it("extends a payoff statement at its per diem to the closing date", () => {
+    const r = computeNetSheet(
+      dealInput({
+        mortgagePayoff: 0,
+        liens: [
+          lienInput({ holder: "Chase", statementAmount: 150_000, goodThroughDate: "2026-03-01", perDiem: 20.55, releaseFee: 45 }),
+          lienInput({ kind: "judgment", statementAmount: 2_000 }),
+        ],
+      })
+    );
+
+    expect(r.seller.liens[0]).toMatchObject({ label: "First mortgage (Chase)", interestFrom: "2026-03-01", interestDays: 14, interest: 287.7, total: 150_332.7 });
+    expect(r.seller.liens[0].items).toEqual([
+      { label: "Payoff good through 3/1/2026", amount: 150_000 },
+      { label: "Interest, 14 day(s) at $20.55/day", amount: 287.7 },
+      { label: "Release / reconveyance fee", amount: 45 },
+    ]);
+    expect(r.seller.mortgagePayoff).toBe(152_332.7);
+    expect(r.seller.estimatedNet).toBe(computeNetSheet(dealInput()).seller.estimatedNet - 2_332.7);
+    expect(r.warnings).toEqual([]);
+  });
+
+  it("estimates a balance by amortization and adds the lump-sum payoff", () => {
+    const r = computeNetSheet(
+      dealInput({
+        mortgagePayoff: 1_000,
+        liens: [lienInput({ method: "amortized", originalAmount: 200_000, ratePct: 6, termMonths: 360, firstPaymentDate: "2021-04-01", prepaymentFee: 500 })],
+      })
+    );
+
+    // 60 payments made (4/1/2021 through 3/1/2026); interest accrues from the 3/1 payment
+    expect(r.seller.liens[0]).toMatchObject({ principal: 186_108.71, interestFrom: "2026-03-01", interestDays: 14, perDiem: 30.59, interest: 428.26, total: 187_036.97 });
+    expect(r.seller.mortgagePayoff).toBe(188_036.97);
+    expect(r.warnings.map((w) => w.code)).toEqual(["lien_estimated"]);
+  });
+
+  it("flags a lien it cannot date", () => {
+    const r = computeNetSheet(dealInput({ liens: [lienInput({ kind: "heloc", statementAmount: 20_000, perDiem: 3 }), lienInput({ method: "amortized", originalAmount: 50_000 })] }));
+    expect(r.seller.liens.map((l) => l.total)).toEqual([20_000, 50_000]);
+    expect(r.warnings.map((w) => w.message)).toEqual([
+      "HELOC: add the good-through date to extend the payoff to closing.",
+      "First mortgage: add the loan terms and first payment date to extend the payoff to closing.",
+    ]);
+  });
+});
+
+describe("computeNetSheet — warnings", () => {
+  const codes = (input = dealInput()) => computeNetSheet(input).warnings.map((w) => w.code);
+
+  it("falls back to today for a bad closing date", () => {
+    const r = computeNetSheet(dealInput({ closingDate: "not-a-date" }));
+    expect(r.warnings.map((w) => w.code)).toContain("invalid_closing_date");
+    expect(r.deal.closingDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+
+  it("flags a missing price and a negative net", () => {
+    expect(codes(dealInput({ salePrice: 0 }))).toEqual(["no_sale_price", "negative_net"]);
+  });
+
+  it("explains why a requested reissue credit was not applied", () => {
+    const title = { ...dealInput().title, applyReissue: true, priorPolicyAmount: 150_000, priorPolicyDate: "2010-01-01" };
+    expect(codes(dealInput({ title }))).toEqual(["reissue_not_eligible"]);
+    expect(codes(dealInput({ title: { ...title, autoOwnerPolicy: false } }))).toEqual(["reissue_manual_premium"]);
+  });
+
+  it("warns when a fee schedule version takes effect near the closing date", () => {
+    // Spring installment paid so only the rate change is in play
+    const tax = { ...dealInput().tax, springPaid: true };
+    const lake = (closingDate: string) => computeNetSheet(dealInput({ county: "Lake", closingDate, tax }));
+
+    const before = lake("2025-08-20");
+    expect(before.deal.feeSchedule).toBe("Standard");
+    expect(before.warnings.map((w) => w.message)).toEqual([
+      "The IHT fee schedule changes on 9/1/2025, 12 day(s) after closing; if closing slips to or past that date, fees will differ from this estimate.",
+    ]);
+
+    const after = lake("2025-09-05");
+    expect(after.deal).toMatchObject({ feeSchedule: "Valparaiso", feeScheduleEffectiveFrom: "2025-09-01" });
+    expect(after.seller.titleFeesTotal - before.seller.titleFeesTotal).toBe(50 + 25);
+    expect(after.warnings.map((w) => w.code)).toEqual(["rate_change_near_closing"]);
+
+    expect(codes(dealInput({ county: "Lake", closingDate: "2025-11-01", tax }))).toEqual([]);
+  });
+
+  it("flags paid installments larger than the bill", () => {
+    const tax = { ...dealInput().tax, springPaid: true, springPaidAmount: 3_000, fallPaid: true, fallPaidAmount: 3_000 };
+    expect(codes(dealInput({ tax, closingDate: "2026-12-01" }))).toEqual(["paid_exceeds_tax"]);
+  });
+
+  it("checks the paid boxes against the installment calendar", () => {
+    const tax = { ...dealInput().tax, springPaid: true };
+    expect(computeNetSheet(dealInput({ tax })).warnings.map((w) => w.message)).toEqual([
+      "Spring installment of the 2025 pay 2026 bill is not due until 5/11/2026, after closing, but is marked paid; confirm it was paid early.",
+    ]);
+  });
+
+  it("adds late penalties for installments delinquent at closing as their own line", () => {
+    // Spring due Mon 5/11/2026 (the 10th is a Sunday); closing 20 days later = 5%
+    const late = computeNetSheet(dealInput({ closingDate: "2026-05-31" }));
+    expect(late.tax.installments.map((x) => [x.dueYMD, x.delinquent, x.penaltyRate])).toEqual([
+      ["2026-05-11", true, 0.05],
+      ["2026-11-10", false, 0],
+    ]);
+    expect(late.seller.taxPenalty).toBe(91.25);
+    expect(late.seller.lines.find((l) => l.key === "tax_penalty")?.amount).toBe(-91.25);
+    expect(late.warnings.map((w) => w.message)).toEqual(["Spring installment of the 2025 pay 2026 bill was due 5/11/2026 and is not marked paid; a 5% late penalty ($91.25) was added."]);
+    // The penalty is the seller’s alone; the buyer is credited only the proration
+    expect(late.buyer.cash.taxProrationCredit).toBe(late.seller.taxDebit);
+
+    // Spring: past the 30-day grace (10%) and still unpaid after the fall due date (+10%); fall: 21 days late (5%)
+    const winter = computeNetSheet(dealInput({ closingDate: "2026-12-01" }));
+    expect(winter.tax.installments.map((x) => x.penaltyRate)).toEqual([0.2, 0.05]);
+    expect(winter.seller.taxPenalty).toBe(365 + 91.25);
+  });
+});
+
+describe("computeNetSheet — tax years", () => {
+  it("adds an unpaid older year to the prior year and the closing-year accrual", () => {
+    const r = computeNetSheet(
+      dealInput({
+        tax: {
+          ...dealInput().tax,
+          otherYears: [{ taxYear: 2024, amount: 3_400, springPaid: true, springPaidAmount: 0, fallPaid: false, fallPaidAmount: 0 }],
+        },
+      })
+    );
+    expect(r.tax.years.map((y) => [y.taxYear, y.payYear, y.estimated, round2(y.debit)])).toEqual([
+      [2024, 2025, false, 1_700],
+      [2025, 2026, false, 3_650],
+      [2026, 2027, true, 730],
+    ]);
+    expect(r.seller.taxDebit).toBe(1_700 + 3_650 + 730);
+    expect(r.tax.unpaidPriorYear).toBe(1_700 + 3_650);
+    // Fall 2024-pay-2025 was due 11/10/2025: past the 30-day grace at a 3/15/2026 closing
+    expect(r.seller.taxPenalty).toBe(170);
+    expect(r.warnings.map((w) => w.code)).toEqual(["tax_installment_delinquent"]);
+  });
+
+  it("estimates a year with no bill when closing two years after the entered bill", () => {
+    const tax = { ...dealInput().tax, taxYear: 2025, springPaid: true, fallPaid: true };
+    const r = computeNetSheet(dealInput({ closingDate: "2027-03-15", tax }));
+    expect(r.tax.years.map((y) => [y.taxYear, y.estimated, y.daysOwned, round2(y.debit)])).toEqual([
+      [2025, false, 365, 0],
+      [2026, true, 365, 3_650],
+      [2027, true, 73, 730],
+    ]);
+    expect(r.seller.taxDebit).toBe(4_380);
+    expect(r.tax.years.map(describeTaxYear)).toEqual(["2025 pay 2026, less $3,650.00 paid", "2026 pay 2027, unpaid (estimated)", "2027 pay 2028, 73 of 365 days"]);
+    expect(r.warnings.map((w) => w.message)).toEqual([
+      "No 2026 pay 2027 tax bill was entered; the seller’s full-year share is estimated at $3,650.00 and treated as unpaid.",
+    ]);
+  });
+
+  it("prorates an estimate from assessed value in place of the bill", () => {
+    const assessment = { ...dealInput().tax.assessment, grossAssessedValue: 250_000, districtRatePer100: 2.5 };
+    const r = computeNetSheet(dealInput({ tax: { ...dealInput().tax, basis: "assessment", assessment } }));
+    expect(r.tax.estimate?.annualTax).toBe(2_500);
+    // Whole 2025 estimate plus Jan 1 – Mar 14 (73 days) of 2026
+    expect(r.seller.taxDebit).toBe(2_500 + 500);
+
+    const text = buildPdf(r).output();
+    expect(text).toContain("Annual tax \\(estimated from assessed value\\)");
+    expect(text).toContain("$131,300.00 at $2.5/$100 = $3,282.50; 1% cap $2,500.00 applies.");
+    expect(buildPdf(r).getNumberOfPages()).toBe(1);
+  });
+
+  it("prorates each parcel on its own and combines them", () => {
+    const garage = { parcelNumber: "49-01-002", priorYearTax: 730, springPaid: false, springPaidAmount: 0, fallPaid: false, fallPaidAmount: 0 };
+    const r = computeNetSheet(dealInput({ closingDate: "2026-05-31", tax: { ...dealInput().tax, parcelNumber: "49-01-001" }, taxParcels: [garage] }));
+
+    // Whole 2025 bill plus Jan 1 – May 30 (150 days) on each parcel
+    expect(r.taxParcels.map((p) => [p.parcelNumber, round2(p.tax.totalDebit)])).toEqual([
+      ["49-01-001", 3_650 + 1_500],
+      ["49-01-002", 730 + 300],
+    ]);
+    expect(r.seller.taxDebit).toBe(5_150 + 1_030);
+    expect(r.tax.years.map((y) => y.amount)).toEqual([4_380, 4_380]);
+    // Spring was due 5/11/2026 on both bills: 5% of each half
+    expect(r.seller.taxPenalty).toBe(91.25 + 18.25);
+    expect(r.warnings.map((w) => w.message.split(":")[0])).toEqual(["Parcel 49-01-001", "Parcel 49-01-002"]);
+    expect(r.buyer.cash.taxProrationCredit).toBe(r.seller.taxDebit);
+  });
+
+  it("itemizes late penalties on every parcel and open year in the PDF", () => {
+    const garage = { parcelNumber: "49-01-002", priorYearTax: 730, springPaid: false, springPaidAmount: 0, fallPaid: false, fallPaidAmount: 0 };
+    const older = { taxYear: 2024, amount: 3_400, springPaid: true, springPaidAmount: 0, fallPaid: false, fallPaidAmount: 0 };
+    const r = computeNetSheet(dealInput({ closingDate: "2026-05-31", tax: { ...dealInput().tax, parcelNumber: "49-01-001", otherYears: [older] }, taxParcels: [garage] }));
+    const text = buildPdf(r).output();
+
+    expect(text).toContain("Parcel 49-01-001: 2024 pay 2025 fall installment delinquent");
+    expect(text).toContain("Parcel 49-01-001: 2025 pay 2026 spring installment delinquent");
+    expect(text).toContain("Parcel 49-01-002: 2025 pay 2026 spring installment delinquent");
+    const itemized = r.taxParcels.flatMap((p) => p.tax.years.flatMap((y) => y.installments)).reduce((sum, x) => sum + x.penalty, 0);
+    expect(round2(itemized)).toBe(r.seller.taxPenalty);
+  });
+
+  it("ignores bills outside the open years", () => {
+    const r = computeNetSheet(dealInput({ tax: { ...dealInput().tax, otherYears: [{ taxYear: 2019, amount: 500, springPaid: true, springPaidAmount: 0, fallPaid: true, fallPaidAmount: 0 }] } }));
+    expect(r.tax.years.map((y) => y.taxYear)).toEqual([2025, 2026]);
+    expect(r.warnings.map((w) => w.code)).toEqual(["tax_year_ignored"]);
+  });
+});
+
+describe("computeNetSheet — HOA", () => {
+  const hoa = {
+    duesAmount: 300,
+    duesPeriod: "quarterly" as const,
+    paidThroughDate: "2026-03-31",
+    transferFee: 250,
+    resaleCertificateFee: 150,
+    capitalContribution: 400,
+    capitalContributionPaidBy: "seller" as const,
+    specialAssessments: [{ label: "Roof", amount: 1_000 }],
+  };
+
+  it("credits dues prepaid past closing and itemizes each association charge", () => {
+    const base = computeNetSheet(dealInput());
+    const r = computeNetSheet(dealInput({ hoa }));
+
+    // $1,200 a year; the seller paid Mar 14 – Mar 31 for the buyer: 17 days
+    expect(r.seller.hoa.proration).toMatchObject({ annualDues: 1_200, prorationEndYMD: "2026-03-14", days: 17, amount: 55.89 });
+    expect(r.seller.lines.filter((l) => l.key.startsWith("hoa_"))).toEqual([
+      { key: "hoa_dues", label: "HOA dues prepaid through 3/31/2026 (17 day(s) at $3.29/day)", amount: 55.89 },
+      { key: "hoa_transfer", label: "HOA transfer fee", amount: -250 },
+      { key: "hoa_resale", label: "HOA resale certificate / disclosure", amount: -150 },
+      { key: "hoa_capital", label: "HOA capital contribution", amount: -400 },
+      { key: "hoa_special_1", label: "Special assessment (Roof)", amount: -1_000 },
+    ]);
+    expect(r.seller.estimatedNet).toBe(round2(base.seller.estimatedNet + 55.89 - 1_800));
+    expect(r.seller.subtotals.closingCosts).toBe(round2(base.seller.subtotals.closingCosts + 1_800));
+    expect(r.buyer.cash.hoaCharges).toBe(55.89);
+  });
+
+  it("charges dues the seller still owes and leaves a buyer-paid capital contribution to the buyer", () => {
+    const r = computeNetSheet(dealInput({ hoa: { ...hoa, paidThroughDate: "2025-12-31", capitalContributionPaidBy: "buyer" } }));
+    // Jan 1 – Mar 14 = 73 days at $1,200 / 365
+    expect(r.seller.hoa.proration).toMatchObject({ days: 73, amount: -240 });
+    expect(r.seller.lines.find((l) => l.key === "hoa_dues")).toMatchObject({ label: "HOA dues owed after 12/31/2025 (73 day(s) at $3.29/day)", amount: -240 });
+    expect(r.seller.lines.some((l) => l.key === "hoa_capital")).toBe(false);
+    expect(r.buyer.cash.hoaCharges).toBe(400);
+  });
+
+  it("uses the tax proration’s day count in a leap year", () => {
+    const leap = { closingDate: "2028-03-15", hoa: { ...hoa, paidThroughDate: "2027-12-31" } };
+    // Jan 1 – Mar 14, 2028 = 74 days at $1,200 / 366, or / 365 when forced
+    expect(computeNetSheet(dealInput(leap)).seller.hoa.proration).toMatchObject({ days: 74, amount: -242.62 });
+    expect(computeNetSheet(dealInput({ ...leap, tax: { ...dealInput().tax, force365: true } })).seller.hoa.proration).toMatchObject({ days: 74, amount: -243.29 });
+  });
+
+  it("warns when dues have no paid-through date and adds no lines for a deal without an HOA", () => {
+    const r = computeNetSheet(dealInput({ hoa: { ...hoa, paidThroughDate: "", transferFee: 0, resaleCertificateFee: 0, capitalContribution: 0, specialAssessments: [] } }));
+    expect(r.seller.hoa.proration).toBeNull();
+    expect(r.warnings.map((w) => w.code)).toEqual(["hoa_paid_through_missing"]);
+    expect(computeNetSheet(dealInput()).seller.lines.some((l) => l.key.startsWith("hoa"))).toBe(false);
+  });
+});
+
+describe("computeNetSheet — utilities", () => {
+  it("prorates usage since the paid-through date on the tax day count and adds holdbacks", () => {
+    const base = computeNetSheet(dealInput());
+    const utilities = [
+      { kind: "sewer" as const, provider: "Citizens", billingCycle: "monthly" as const, lastBillAmount: 73, paidThroughDate: "2026-02-28", holdback: 100 },
+      { kind: "water" as const, provider: "", billingCycle: "quarterly" as const, lastBillAmount: 182.5, paidThroughDate: "", holdback: 75 },
+    ];
+    const r = computeNetSheet(dealInput({ utilities }));
+
+    // $876 a year over 365 days = $2.40/day, Mar 1 – Mar 14
+    const [sewer, water] = r.seller.utilities;
+    expect(sewer).toMatchObject({ label: "Sewer (Citizens)", days: 14, usage: 33.6, holdback: 100, total: 133.6, incomplete: false });
+    expect(sewer.items.map((i) => i.label)).toEqual(["Usage 3/1/2026 – 3/14/2026, 14 day(s) at $2.40/day", "Final bill holdback"]);
+    expect(water).toMatchObject({ label: "Water", usage: 0, total: 75, incomplete: true });
+    expect(r.warnings.map((w) => w.code)).toEqual(["utility_incomplete"]);
+
+    expect(r.seller.utilitiesTotal).toBe(208.6);
+    expect(r.seller.lines.find((l) => l.key === "utilities")?.amount).toBe(-208.6);
+    expect(r.seller.estimatedNet).toBe(round2(base.seller.estimatedNet - 208.6));
+  });
+
+  it("charges no usage when the bills are paid past closing", () => {
+    const r = computeNetSheet(dealInput({ utilities: [{ kind: "trash", provider: "", billingCycle: "quarterly", lastBillAmount: 60, paidThroughDate: "2026-03-31", holdback: 0 }] }));
+    expect(r.seller.utilities[0]).toMatchObject({ days: 0, total: 0, items: [] });
+  });
+});
+
+describe("computeNetSheet — commissions", () => {
+  const commission = dealInput().listingCommission;
+
+  it("figures tiered rates on each slice of the price plus the admin fee, and notes the referral share", () => {
+    const listingCommission = {
+      ...commission,
+      type: "tiered" as const,
+      tiers: [
+        { upTo: 100_000, pct: 3 },
+        { upTo: 0, pct: 2.5 },
+      ],
+      adminFee: 395,
+      referralPct: 25,
+    };
+    const r = computeNetSheet(dealInput({ listingCommission, buyersCommission: { ...commission, type: "flat_plus_pct", flat: 500, pct: 2 } }));
+
+    expect(r.seller.commissionDetail.listing).toEqual({
+      items: [
+        { label: "3% of the first $100,000.00", amount: 3_000 },
+        { label: "2.5% of the rest above $100,000.00", amount: 5_000 },
+        { label: "Brokerage transaction / admin fee", amount: 395 },
+      ],
+      total: 8_395,
+      referralPct: 25,
+      referralFee: 2_000,
+    });
+    expect(r.seller.commissionDetail.buyers.items.map((i) => i.amount)).toEqual([500, 6_000]);
+    expect(r.seller.subtotals.commissions).toBe(14_895);
+  });
+
+  it("charges only the combined rate under dual agency", () => {
+    const base = computeNetSheet(dealInput());
+    const r = computeNetSheet(dealInput({ dualAgency: true, listingCommission: { ...commission, pct: 4.5 } }));
+
+    expect(r.seller.listingCommission).toBe(13_500);
+    expect(r.seller.buyersCommission).toBe(0);
+    expect(r.seller.lines.find((l) => l.key === "listing")?.label).toBe("Listing agent commission (dual agency, both sides)");
+    expect(r.seller.estimatedNet).toBe(round2(base.seller.estimatedNet + 4_500));
+  });
+});
+
+describe("computeNetSheet — buyer-broker compensation", () => {
+  const base = computeNetSheet(dealInput());
+
+  it("moves the buyer’s broker to the buyer’s cash to close when the buyer pays", () => {
+    const r = computeNetSheet(dealInput({ buyerBroker: { paidBy: "buyer", sellerSharePct: 0 } }));
+
+    expect(r.seller.buyerBroker).toMatchObject({ total: 9_000, sellerPaid: 0, concession: 0, buyerPaid: 9_000 });
+    expect(r.seller.lines.find((l) => l.key === "buyers")?.amount).toBe(-0);
+    expect(r.seller.estimatedNet).toBe(round2(base.seller.estimatedNet + 9_000));
+    expect(r.buyer.cash.cashToClose).toBe(round2(base.buyer.cash.cashToClose + 9_000));
+  });
+
+  it("deducts a concession-paid compensation as a concession the buyer passes on", () => {
+    const r = computeNetSheet(dealInput({ buyerBroker: { paidBy: "concession", sellerSharePct: 0 } }));
+
+    expect(r.seller.estimatedNet).toBe(base.seller.estimatedNet);
+    expect(r.seller.lines.find((l) => l.key === "buyers_concession")?.amount).toBe(-9_000);
+    expect(r.seller.subtotals).toMatchObject({ commissions: 9_000, closingCosts: round2(base.seller.subtotals.closingCosts + 9_000) });
+    expect(r.buyer.cash).toMatchObject({ sellerConcessionsCredit: 9_000, buyerBrokerCompensation: 9_000, cashToClose: base.buyer.cash.cashToClose });
+  });
+
+  it("splits the compensation by the seller’s share", () => {
+    const r = computeNetSheet(dealInput({ buyerBroker: { paidBy: "split", sellerSharePct: 40 } }));
+
+    expect(r.seller.buyersCommission).toBe(3_600);
+    expect(r.buyer.cash.buyerBrokerCompensation).toBe(5_400);
+    expect(r.seller.lines.find((l) => l.key === "buyers")?.label).toBe("Buyer’s agent commission (seller’s share)");
+  });
+});
+
+describe("computeNetSheet — concession limits", () => {
+  it("steps the conventional cap with the down payment", () => {
+    const buyer = (pct: number) => ({ ...dealInput().buyer, downPayment: { type: "pct" as const, pct, flat: 0 } });
+
+    expect(computeNetSheet(dealInput({ sellerConcessions: 9_000 })).seller.concessionLimit).toMatchObject({ capPct: 6, maxAllowed: 18_000, excess: 0 });
+    expect(computeNetSheet(dealInput({ buyer: buyer(5) })).seller.concessionLimit).toMatchObject({ capPct: 3, maxAllowed: 9_000 });
+    expect(computeNetSheet(dealInput({ buyer: buyer(25) })).seller.concessionLimit).toMatchObject({ capPct: 9, maxAllowed: 27_000 });
+  });
+
+  it("warns when concessions exceed the FHA cap", () => {
+    const r = computeNetSheet(dealInput({ loan: { program: "fha", allowableCosts: 0 }, sellerConcessions: 20_000 }));
+
+    expect(r.seller.concessionLimit).toMatchObject({ capPct: 6, maxAllowed: 18_000, concessions: 20_000, excess: 2_000 });
+    expect(r.warnings.map((w) => w.code)).toContain("concessions_over_limit");
+  });
+
+  it("adds VA allowable costs on top of the 4% cap", () => {
+    const r = computeNetSheet(dealInput({ loan: { program: "va", allowableCosts: 3_500 }, sellerConcessions: 15_000 }));
+
+    expect(r.seller.concessionLimit).toMatchObject({ capPct: 4, maxAllowed: 15_500, excess: 0, basis: "4% of the price (plus $3,500.00 allowable costs)" });
+  });
+
+  it("has no cap on a cash sale", () => {
+    expect(computeNetSheet(dealInput({ transactionType: "cash", sellerConcessions: 50_000 })).seller.concessionLimit).toBeNull();
+  });
+});
+
+describe("PDF layouts", () => {
+  it("render straight from a NetSheetResult", () => {
+    const r = computeNetSheet(dealInput());
+    for (const doc of [buildPdf(r), buildBuyerPdf(r)]) {
+      expect(doc.getNumberOfPages()).toBe(1);
+      expect(doc.output().startsWith("%PDF-")).toBe(true);
+    }
+  });
+
+  it("itemizes lien payoffs on the seller PDF", () => {
+    const liens = [lienInput({ holder: "Chase", statementAmount: 150_000, goodThroughDate: "2026-03-01", perDiem: 20.55, releaseFee: 45 })];
+    const text = buildPdf(computeNetSheet(dealInput({ mortgagePayoff: 0, liens }))).output();
+    // Parentheses are escaped inside PDF strings
+    expect(text).toContain("Payoffs \\(Detail\\)");
+    expect(text).toContain("Interest, 14 day\\(s\\) at $20.55/day");
+    expect(text).toContain("Release / reconveyance fee");
+  });
+  it("lists HOA proration and charges on the seller PDF", () => {
+    const hoa = { ...dealInput().hoa, duesAmount: 300, paidThroughDate: "2026-03-31", transferFee: 250 };
+    const text = buildPdf(computeNetSheet(dealInput({ hoa }))).output();
+    expect(text).toContain("HOA dues prepaid through 3/31/2026");
+    expect(text).toContain("HOA transfer fee");
+  });
+
+  it("groups utilities on the seller PDF", () => {
+    const utilities = [{ kind: "sewer" as const, provider: "Citizens", billingCycle: "monthly" as const, lastBillAmount: 73, paidThroughDate: "2026-02-28", holdback: 100 }];
+    const text = buildPdf(computeNetSheet(dealInput({ utilities }))).output();
+    expect(text).toContain("Utilities \\(Detail\\)");
+    expect(text).toContain("Sewer \\(Citizens\\)");
+    expect(text).toContain("Final bill holdback");
+  });
+
+  it("itemizes structured commissions on the seller PDF", () => {
+    const listingCommission = { ...dealInput().listingCommission, adminFee: 395 };
+    const simple = buildPdf(computeNetSheet(dealInput())).output();
+    const text = buildPdf(computeNetSheet(dealInput({ listingCommission }))).output();
+    expect(simple).toContain("Listing agent commission \\(3% of $300,000.00\\)");
+    expect(simple).not.toContain("Commissions \\(Detail\\)");
+    expect(text).toContain("Commissions \\(Detail\\)");
+    expect(text).toContain("Brokerage transaction / admin fee");
+  });
+
+  it("discloses who pays the buyer’s broker on the seller and buyer PDFs", () => {
+    const r = computeNetSheet(dealInput({ buyerBroker: { paidBy: "buyer", sellerSharePct: 0 } }));
+    for (const doc of [buildPdf(r), buildBuyerPdf(r)]) {
+      expect(doc.getNumberOfPages()).toBe(1);
+      const text = doc.output();
+      expect(text).toContain("Buyer-broker compensation: the buyer pays their broker $9,000.00");
+      expect(text).toContain("fully negotiable.");
+    }
+  });
+
+  it("shows the concession cap and any excess on the seller and buyer PDFs", () => {
+    const r = computeNetSheet(dealInput({ loan: { program: "fha", allowableCosts: 0 }, sellerConcessions: 20_000 }));
+    for (const doc of [buildPdf(r), buildBuyerPdf(r)]) {
+      const text = doc.output();
+      expect(text).toContain("Max concessions, FHA");
+      expect(text).toContain("Excess over the cap");
+    }
+    expect(buildPdf(computeNetSheet(dealInput())).output()).not.toContain("Max concessions");
+  });
+});
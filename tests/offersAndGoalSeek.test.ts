@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  bestOfferIndex,
+  calcOfferResult,
+  computeNetSheet,
+  dealAtPrice,
+  differingOfferLines,
+  solveSalePriceForNet,
+  type NetSheetInput,
+  type OfferTerms,
+} from "../src/engine";
+import { newOffer, toNetSheetInput, toOfferTerms, withDealDefaults } from "../src/App";
+import { dealInput } from "./fixtures";
+
+function offerFrom(base: NetSheetInput, patch: Partial<OfferTerms> = {}): OfferTerms {
+  return {
+    id: "a",
+    label: "Offer A",
+    kind: "standard",
+    salePrice: base.salePrice,
+    sellerConcessions: base.sellerConcessions,
+    closingDate: base.closingDate,
+    transactionType: base.transactionType,
+    listingCommission: base.listingCommission,
+    buyersCommission: base.buyersCommission,
+    homeWarranty: 500,
+    serviceFeePct: 0,
+    repairDeduction: 0,
+    ...patch,
+  };
+}
+
+describe("offer comparison", () => {
+  const base = dealInput();
+
+  it("nets the same as the base deal when an offer changes nothing", () => {
+    expect(calcOfferResult(base, offerFrom(base)).estimatedNet).toBe(computeNetSheet(base).seller.estimatedNet);
+  });
+
+  it("prices an instant cash offer with a service fee instead of commissions", () => {
+    const instant = calcOfferResult(base, offerFrom(base, { id: "b", kind: "instant_cash", homeWarranty: 0, serviceFeePct: 5, repairDeduction: 2_000 }));
+    const line = (key: string) => instant.lines.find((x) => x.key === key)?.amount;
+
+    expect(line("listing")).toBeCloseTo(0, 9);
+    expect(line("service")).toBe(-15_000);
+    expect(line("repairs")).toBe(-2_000);
+  });
+
+  it("finds the best net and the lines that differ", () => {
+    const a = calcOfferResult(base, offerFrom(base));
+    const b = calcOfferResult(base, offerFrom(base, { id: "b", salePrice: 310_000 }));
+    expect(bestOfferIndex([a, b])).toBe(1);
+    expect([...differingOfferLines([a, b])].sort()).toEqual(["buyers", "listing", "price", "title"]);
+  });
+
+  it("reproduces the base net exactly when an offer is copied from the deal’s commission structures", () => {
+    const deal = withDealDefaults({
+      salePriceInput: "412,500",
+      listingCommissionType: "tiered",
+      listingCommissionTiers: [
+        { id: "t1", upToInput: "100,000", pctInput: "7" },
+        { id: "t2", upToInput: "", pctInput: "3" },
+      ],
+      listingAdminFeeInput: "395",
+      listingReferralPctInput: "25",
+      buyersCommissionType: "flat_plus_pct",
+      buyersCommissionFlat: "500",
+      buyersCommissionPct: "2",
+      buyersAdminFeeInput: "250",
+      otherCosts: [{ id: "c1", label: "Home warranty", amountInput: "525" }],
+    });
+    const sheetInput = toNetSheetInput(deal);
+    const offer = toOfferTerms(newOffer(deal, "standard", "Offer A"));
+    const result = calcOfferResult(sheetInput, offer);
+    const seller = computeNetSheet(sheetInput).seller;
+
+    expect(offer.listingCommission).toEqual(sheetInput.listingCommission);
+    expect(offer.buyersCommission).toEqual(sheetInput.buyersCommission);
+    expect(result.lines.find((x) => x.key === "listing")?.amount).toBe(-seller.listingCommission);
+    expect(result.estimatedNet).toBe(seller.estimatedNet);
+  });
+});
+
+describe("goal seek", () => {
+  const base = dealInput({ closingDate: "2026-01-10" });
+
+  it("finds the lowest price that reaches the target", () => {
+    const goal = solveSalePriceForNet(base, 200_000, 1);
+    if (!goal.ok) throw new Error(goal.reason);
+    expect(goal.result.seller.estimatedNet).toBeGreaterThanOrEqual(200_000);
+    expect(goal.sellerConcessions).toBe(Math.round(goal.salePrice) / 100);
+    expect(computeNetSheet(dealAtPrice(base, goal.salePrice - 1, 1)).seller.estimatedNet).toBeLessThan(200_000);
+  });
+
+  it("solves above the $1M owner’s chart", () => {
+    const goal = solveSalePriceForNet(base, 1_500_000, null);
+    expect(goal.ok && goal.salePrice).toBeGreaterThan(1_000_000);
+  });
+
+  it("reports no solution when net cannot grow with price", () => {
+    const goal = solveSalePriceForNet(
+      dealInput({ listingCommission: { type: "pct", pct: 60, flat: 0, tiers: [], adminFee: 0, referralPct: 0 }, buyersCommission: { type: "pct", pct: 40, flat: 0, tiers: [], adminFee: 0, referralPct: 0 } }),
+      1_000,
+      null
+    );
+    expect(goal.ok).toBe(false);
+  });
+});
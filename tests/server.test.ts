@@ -0,0 +1,75 @@
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createNetSheetServer } from "../server/app";
+import { computeNetSheet } from "../src/engine";
+import { dealInput } from "./fixtures";
+
+const server = createNetSheetServer();
+let base = "";
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const deal = { sale_price: 300000, county: "Marion", closing_date: "2026-03-15", mortgage_payoff: 150000, home_warranty: 500, prior_year_tax: 3650 };
+const post = (path: string, body: unknown, contentType = "application/json") =>
+  fetch(base + path, { method: "POST", headers: { "Content-Type": contentType }, body: typeof body === "string" ? body : JSON.stringify(body) });
+
+describe("net sheet API", () => {
+  it("returns the engine result as JSON", async () => {
+    const res = await post("/net-sheet", deal);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.seller.estimatedNet).toBe(computeNetSheet(dealInput()).seller.estimatedNet);
+    expect(body.tax.totalDebit).toBe(4_380);
+  });
+
+  it("itemizes liens sent in the body", async () => {
+    const res = await post("/net-sheet", { ...deal, mortgage_payoff: 0, liens: "first_mortgage:150000 judgment:2500" });
+    const body = await res.json();
+    expect(body.seller.liens.map((l: { label: string; total: number }) => [l.label, l.total])).toEqual([
+      ["First mortgage", 150_000],
+      ["Judgment lien", 2_500],
+    ]);
+    expect(body.seller.mortgagePayoff).toBe(152_500);
+  });
+
+  it("renders the seller PDF", async () => {
+    const res = await post("/net-sheet.pdf", deal);
+    expect(res.headers.get("content-type")).toBe("application/pdf");
+    expect(Buffer.from(await res.arrayBuffer()).subarray(0, 5).toString()).toBe("%PDF-");
+  });
+
+  it("lists every invalid and unknown field in a 400", async () => {
+    const res = await post("/net-sheet", { ...deal, county: "Nowhere", spring_paid: "maybe", salePrice: 1 });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: {
+        code: "invalid_request",
+        message: "3 invalid fields.",
+        details: [
+          { field: "salePrice", message: 'unknown field "salePrice"' },
+          { field: "county", message: 'county "Nowhere" is not an Indiana county' },
+          { field: "spring_paid", message: 'spring_paid must be yes or no (got "maybe")' },
+        ],
+      },
+    });
+  });
+
+  it("rejects malformed bodies with structured errors", async () => {
+    expect((await (await post("/net-sheet", "{")).json()).error.code).toBe("invalid_json");
+    expect((await (await post("/net-sheet", [deal])).json()).error.code).toBe("invalid_request");
+    expect((await post("/net-sheet", "x", "text/plain")).status).toBe(415);
+    expect((await fetch(base + "/net-sheet")).headers.get("allow")).toBe("POST");
+    expect((await fetch(base + "/nope")).status).toBe(404);
+  });
+
+  it("serves an OpenAPI description of the deal fields", async () => {
+    const doc = await (await fetch(base + "/openapi.json")).json();
+    expect(doc.openapi).toBe("3.1.0");
+    expect(doc.components.schemas.Deal.required).toEqual(["sale_price", "county", "closing_date"]);
+    expect(Object.keys(doc.paths)).toContain("/net-sheet.pdf");
+  });
+});
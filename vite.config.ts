@@ -1,6 +1,10 @@
-import { defineConfig } from 'vite'
+import { defineConfig } from 'vitest/config'
 import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   plugins: [react()],
+  test: {
+    // tests/smoke.test.mjs is a plain node script, run separately by `npm test`
+    include: ['tests/**/*.test.ts'],
+  },
 })